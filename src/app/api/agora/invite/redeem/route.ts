@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RtcRole } from 'agora-token';
+import { buildRtcToken, resolveAppCertificate } from '@/lib/agora-server';
+import { INVITE_ERROR_STATUS, InviteError, createInviteSession, redeemInvite } from '@/lib/agora-invite';
+import { normalizeAgoraUid } from '@/lib/agora-utils';
+
+const TOKEN_EXPIRE_SECONDS = 3600;
+
+/**
+ * Exchange an invite for the channel settings, a freshly signed token, and a session
+ * for renewing that token through /api/agora/token
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { invite } = await request.json() as { invite?: string };
+    if (!invite) {
+      return NextResponse.json({ error: 'Invite is required', code: 'invalid' }, { status: 400 });
+    }
+
+    const payload = redeemInvite(invite);
+
+    const appCertificate = resolveAppCertificate(payload.appId);
+    if (!appCertificate) {
+      return NextResponse.json(
+        { error: 'No App Certificate is configured on the server for this App ID', code: 'not-configured' },
+        { status: 503 }
+      );
+    }
+
+    const uid = normalizeAgoraUid(payload.uid);
+    const agoraRole = payload.role === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER;
+    const { token, uidType } = buildRtcToken(
+      payload.appId,
+      appCertificate,
+      payload.channel,
+      uid,
+      agoraRole,
+      TOKEN_EXPIRE_SECONDS
+    );
+
+    return NextResponse.json({
+      token,
+      appId: payload.appId,
+      channel: payload.channel,
+      uid: uid ?? 0,
+      uidType,
+      role: payload.role,
+      mode: payload.mode ?? 'rtc',
+      codec: payload.codec ?? 'vp8',
+      latency: payload.latency ?? 'low',
+      expireTime: Math.floor(Date.now() / 1000) + TOKEN_EXPIRE_SECONDS,
+      inviteExpireTime: payload.expiresAt,
+      session: createInviteSession(payload)
+    });
+
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: INVITE_ERROR_STATUS[error.code] });
+    }
+
+    console.error('Invite redemption error:', error);
+    return NextResponse.json(
+      { error: 'Failed to redeem invite', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { resolveAppCertificate } from '@/lib/agora-server';
+import { InviteError, createInvite, hasInviteAdminAuthorization, isInviteChannel } from '@/lib/agora-invite';
+import { normalizeAgoraUid } from '@/lib/agora-utils';
+import type { AgoraCodec, AgoraMode, AudienceLatency } from '@/lib/agora-config';
+
+const MODES: AgoraMode[] = ['rtc', 'live'];
+const CODECS: AgoraCodec[] = ['vp8', 'vp9', 'h264'];
+const AUDIENCE_LATENCIES: AudienceLatency[] = ['low', 'ultra-low'];
+
+const DEFAULT_EXPIRE_SECONDS = 24 * 60 * 60;
+const MAX_EXPIRE_SECONDS = 30 * 24 * 60 * 60;
+
+interface InviteRequest {
+  appId: string;
+  channelName: string;
+  role?: 'publisher' | 'audience';
+  uid?: string | number;
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  latency?: AudienceLatency;
+  expireTimeInSeconds?: number;
+  maxUses?: number;
+}
+
+function badRequest(error: string) {
+  return NextResponse.json({ error }, { status: 400 });
+}
+
+/**
+ * Mint an encrypted /video invite. Callers must send AGORA_INVITE_ADMIN_TOKEN as a bearer
+ * token; without one configured, nobody can mint.
+ */
+export async function POST(request: NextRequest) {
+  if (!process.env.AGORA_INVITE_ADMIN_TOKEN) {
+    return NextResponse.json(
+      { error: 'Minting invites requires AGORA_INVITE_ADMIN_TOKEN to be configured', code: 'not-configured' },
+      { status: 503 }
+    );
+  }
+  if (!hasInviteAdminAuthorization(request.headers.get('authorization'))) {
+    return NextResponse.json({ error: 'Not authorized to create invites' }, { status: 401 });
+  }
+
+  try {
+    const body: InviteRequest = await request.json();
+    const {
+      appId,
+      channelName,
+      role = 'audience',
+      uid,
+      mode,
+      codec,
+      latency,
+      expireTimeInSeconds = DEFAULT_EXPIRE_SECONDS,
+      maxUses
+    } = body;
+
+    if (!appId || !channelName) {
+      return badRequest('App ID and Channel Name are required');
+    }
+
+    const appIdPattern = /^[a-f0-9]{32}$/i;
+    if (!appIdPattern.test(appId)) {
+      return badRequest('Invalid App ID format. App ID should be a 32-character hexadecimal string.');
+    }
+
+    // Otherwise anyone could get tokens for the invite's channel from the token route
+    if (!isInviteChannel(channelName)) {
+      return badRequest(`Channel "${channelName}" is not reserved for invites. Add it to AGORA_INVITE_CHANNELS first.`);
+    }
+
+    // An invite is useless if its token can't be signed
+    if (!resolveAppCertificate(appId)) {
+      return badRequest('No App Certificate is configured on the server for this App ID');
+    }
+
+    if (role !== 'publisher' && role !== 'audience') {
+      return badRequest('Role must be "publisher" or "audience"');
+    }
+    if (mode && !MODES.includes(mode)) {
+      return badRequest(`Invalid mode "${mode}". Expected one of: ${MODES.join(', ')}`);
+    }
+    if (codec && !CODECS.includes(codec)) {
+      return badRequest(`Invalid codec "${codec}". Expected one of: ${CODECS.join(', ')}`);
+    }
+    if (latency && !AUDIENCE_LATENCIES.includes(latency)) {
+      return badRequest(`Invalid latency "${latency}". Expected one of: ${AUDIENCE_LATENCIES.join(', ')}`);
+    }
+
+    if (!Number.isInteger(expireTimeInSeconds) || expireTimeInSeconds <= 0 || expireTimeInSeconds > MAX_EXPIRE_SECONDS) {
+      return badRequest(`Expiry must be a whole number of seconds between 1 and ${MAX_EXPIRE_SECONDS}`);
+    }
+    if (maxUses !== undefined && (!Number.isInteger(maxUses) || maxUses <= 0)) {
+      return badRequest('Max uses must be a positive whole number');
+    }
+
+    let normalizedUid: string | number | null;
+    try {
+      normalizedUid = normalizeAgoraUid(uid);
+    } catch (uidError) {
+      return badRequest(uidError instanceof Error ? uidError.message : 'Invalid uid');
+    }
+
+    const expiresAt = Math.floor(Date.now() / 1000) + expireTimeInSeconds;
+    const invite = createInvite({
+      appId,
+      channel: channelName,
+      role,
+      uid: normalizedUid ?? undefined,
+      mode,
+      codec,
+      latency,
+      expiresAt,
+      maxUses
+    });
+
+    const url = new URL('/video', request.url);
+    url.searchParams.set('invite', invite);
+
+    return NextResponse.json({
+      invite,
+      url: url.toString(),
+      expireTime: expiresAt,
+      maxUses: maxUses ?? null
+    });
+
+  } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: 503 });
+    }
+
+    console.error('Invite creation error:', error);
+    return NextResponse.json(
+      { error: 'Failed to create invite', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
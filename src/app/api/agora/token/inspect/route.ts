@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getTokenProblems, parseAgoraToken } from '@/lib/agora-token';
+import { normalizeAgoraUid } from '@/lib/agora-utils';
+
+interface InspectRequest {
+  token: string;
+  // Optional expectations to check the token against
+  appId?: string;
+  channelName?: string;
+  uid?: string | number;
+}
+
+/**
+ * Decode a token for debugging. Signatures are not verified, so a token that decodes
+ * cleanly may still be rejected by Agora.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { token, appId, channelName, uid }: InspectRequest = await request.json();
+
+    if (!token) {
+      return NextResponse.json(
+        { error: 'Token is required' },
+        { status: 400 }
+      );
+    }
+
+    let parsedToken;
+    try {
+      parsedToken = await parseAgoraToken(token);
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: 'Token could not be decoded', details: parseError instanceof Error ? parseError.message : 'Unknown error' },
+        { status: 400 }
+      );
+    }
+
+    let expectedUid: string | number | null | undefined;
+    try {
+      expectedUid = uid === undefined ? undefined : normalizeAgoraUid(uid);
+    } catch (uidError) {
+      return NextResponse.json(
+        { error: uidError instanceof Error ? uidError.message : 'Invalid uid' },
+        { status: 400 }
+      );
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const problems = getTokenProblems(parsedToken, {
+      appId,
+      channel: channelName,
+      uid: expectedUid,
+      now
+    });
+
+    return NextResponse.json({
+      token: parsedToken,
+      expired: parsedToken.expiresAt !== null && parsedToken.expiresAt <= now,
+      expiresIn: parsedToken.expiresAt !== null ? parsedToken.expiresAt - now : null,
+      problems
+    });
+
+  } catch (error) {
+    console.error('Token inspection error:', error);
+    return NextResponse.json(
+      { error: 'Failed to inspect token', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
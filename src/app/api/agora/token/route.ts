@@ -1,31 +1,75 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { RtcTokenBuilder, RtcRole } from 'agora-token';
+import { RtcRole } from 'agora-token';
+import { buildRtcToken, resolveAppCertificate } from '@/lib/agora-server';
+import { normalizeAgoraUid } from '@/lib/agora-utils';
+import {
+  INVITE_ERROR_STATUS,
+  InviteError,
+  SealedInvitePayload,
+  hasInviteAdminAuthorization,
+  isInviteChannel,
+  verifyInviteSession
+} from '@/lib/agora-invite';
+
+const SESSION_TOKEN_EXPIRE_SECONDS = 3600;
 
 interface TokenRequest {
   appId: string;
-  appCertificate: string;
   channelName: string;
+  // Digit-only values are numeric uids, anything else a string user account
   uid: string | number;
   role: 'publisher' | 'audience';
   expireTimeInSeconds?: number;
+  // From an invite redemption; the token is then signed for the invite's settings only
+  session?: string;
+}
+
+function unauthorized() {
+  return NextResponse.json(
+    { error: 'Tokens for this channel are only issued for a redeemed invite or with admin authorization', code: 'unauthorized' },
+    { status: 401 }
+  );
+}
+
+// Channels reserved for invites must not be signed for anyone who asks
+function isChannelLocked(channelName: unknown, authorization: string | null): boolean {
+  return typeof channelName === 'string' && isInviteChannel(channelName) && !hasInviteAdminAuthorization(authorization);
+}
+
+// A session's token is signed for exactly what its invite allows, whatever the body says
+function getSessionTokenRequest(session: SealedInvitePayload): TokenRequest {
+  return {
+    appId: session.appId,
+    channelName: session.channel,
+    uid: session.uid ?? 0,
+    role: session.role,
+    expireTimeInSeconds: SESSION_TOKEN_EXPIRE_SECONDS
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const body: TokenRequest = await request.json();
+
+    let session: SealedInvitePayload | null = null;
+    if (body.session) {
+      session = verifyInviteSession(body.session);
+    } else if (isChannelLocked(body.channelName, request.headers.get('authorization'))) {
+      return unauthorized();
+    }
+
     const {
       appId,
-      appCertificate,
       channelName,
       uid,
       role = 'audience',
       expireTimeInSeconds = 3600
-    } = body;
+    } = session ? getSessionTokenRequest(session) : body;
 
     // Validate required fields
-    if (!appId || !appCertificate || !channelName) {
+    if (!appId || !channelName) {
       return NextResponse.json(
-        { error: 'App ID, App Certificate, and Channel Name are required' },
+        { error: 'App ID and Channel Name are required' },
         { status: 400 }
       );
     }
@@ -39,6 +83,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Certificates live in server-side config only, never in the request
+    const appCertificate = resolveAppCertificate(appId);
+    if (!appCertificate) {
+      return NextResponse.json(
+        { error: 'No App Certificate is configured on the server for this App ID' },
+        { status: 400 }
+      );
+    }
+
     // Calculate expiration time
     const currentTimestamp = Math.floor(Date.now() / 1000);
     const privilegeExpiredTs = currentTimestamp + expireTimeInSeconds;
@@ -46,23 +99,22 @@ export async function POST(request: NextRequest) {
     // Convert role to Agora role enum
     const agoraRole = role === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER;
 
-    // Convert uid to number if it's a string
-    const uidNum = typeof uid === 'string' ? parseInt(uid) || 0 : uid || 0;
+    let normalizedUid: string | number | null;
+    try {
+      normalizedUid = normalizeAgoraUid(uid);
+    } catch (uidError) {
+      return NextResponse.json(
+        { error: uidError instanceof Error ? uidError.message : 'Invalid uid' },
+        { status: 400 }
+      );
+    }
 
-    // Generate token
-    const token = RtcTokenBuilder.buildTokenWithUid(
-      appId,
-      appCertificate,
-      channelName,
-      uidNum,
-      agoraRole,
-      privilegeExpiredTs,
-      privilegeExpiredTs
-    );
+    const { token, uidType } = buildRtcToken(appId, appCertificate, channelName, normalizedUid, agoraRole, expireTimeInSeconds);
 
     return NextResponse.json({
       token,
-      uid: uidNum,
+      uid: normalizedUid ?? 0,
+      uidType,
       channel: channelName,
       role,
       expireTime: privilegeExpiredTs,
@@ -70,6 +122,10 @@ export async function POST(request: NextRequest) {
     });
 
   } catch (error) {
+    if (error instanceof InviteError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: INVITE_ERROR_STATUS[error.code] });
+    }
+
     console.error('Token generation error:', error);
     return NextResponse.json(
       { error: 'Failed to generate token', details: error instanceof Error ? error.message : 'Unknown error' },
@@ -78,18 +134,22 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// GET endpoint for token generation with query parameters
+// GET endpoint for token generation with query parameters. Sessions would end up in URLs
+// and logs, so invite channels are for admins only here.
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const channelName = searchParams.get('channel');
+  if (isChannelLocked(channelName, request.headers.get('authorization'))) {
+    return unauthorized();
+  }
+
   const uid = searchParams.get('uid') || '0';
   const role = searchParams.get('role') || 'audience';
   const appId = searchParams.get('appId');
-  const appCertificate = searchParams.get('appCertificate');
 
-  if (!appId || !appCertificate || !channelName) {
+  if (!appId || !channelName) {
     return NextResponse.json(
-      { error: 'App ID, App Certificate, and Channel Name are required' },
+      { error: 'App ID and Channel Name are required' },
       { status: 400 }
     );
   }
@@ -103,28 +163,38 @@ export async function GET(request: NextRequest) {
     );
   }
 
+  const appCertificate = resolveAppCertificate(appId);
+  if (!appCertificate) {
+    return NextResponse.json(
+      { error: 'No App Certificate is configured on the server for this App ID' },
+      { status: 400 }
+    );
+  }
+
   try {
-    const currentTimestamp = Math.floor(Date.now() / 1000);
-    const privilegeExpiredTs = currentTimestamp + 3600; // 1 hour expiry
+    const expireTimeInSeconds = 3600; // 1 hour expiry
 
     const agoraRole = role === 'publisher' ? RtcRole.PUBLISHER : RtcRole.SUBSCRIBER;
-    const uidNum = parseInt(uid) || 0;
 
-    const token = RtcTokenBuilder.buildTokenWithUid(
-      appId,
-      appCertificate,
-      channelName,
-      uidNum,
-      agoraRole,
-      privilegeExpiredTs,
-      privilegeExpiredTs
-    );
+    let normalizedUid: string | number | null;
+    try {
+      normalizedUid = normalizeAgoraUid(uid);
+    } catch (uidError) {
+      return NextResponse.json(
+        { code: 1, message: uidError instanceof Error ? uidError.message : 'Invalid uid' },
+        { status: 400 }
+      );
+    }
+
+    const { token, uidType } = buildRtcToken(appId, appCertificate, channelName, normalizedUid, agoraRole, expireTimeInSeconds);
 
     return NextResponse.json({
       code: 0,
       data: {
         token,
-        appid: appId
+        appid: appId,
+        uid: normalizedUid ?? 0,
+        uidType
       }
     });
 
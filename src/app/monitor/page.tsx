@@ -0,0 +1,238 @@
+'use client';
+
+import { FormEvent, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import MonitorChannel from '@/components/MonitorChannel';
+import { getGridDimensions } from '@/lib/grid-layout';
+import {
+  MonitorPreset,
+  deleteMonitorPreset,
+  loadAgoraCredentials,
+  loadMonitorPresets,
+  saveAgoraCredentials,
+  saveMonitorPreset
+} from '@/lib/agora-utils';
+import type { AgoraCodec, AgoraMode } from '@/lib/agora-config';
+
+const MODES: AgoraMode[] = ['rtc', 'live'];
+const CODECS: AgoraCodec[] = ['vp8', 'vp9', 'h264'];
+
+interface MonitoredChannel {
+  // Stable per entry, so removing a channel doesn't remount the ones after it
+  key: string;
+  name: string;
+}
+
+/**
+ * Control-room wall: one audience client per channel.
+ * URL: /monitor?appId=APP_ID&channel=a&channel=b[&mode=live&codec=vp8], or ?preset=NAME
+ */
+export default function MonitorPage() {
+  const [appId, setAppId] = useState('');
+  const [mode, setMode] = useState<AgoraMode>('rtc');
+  const [codec, setCodec] = useState<AgoraCodec>('vp8');
+  const [channels, setChannels] = useState<MonitoredChannel[]>([]);
+  const [newChannel, setNewChannel] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+  const [presets, setPresets] = useState<MonitorPreset[]>([]);
+  const [presetName, setPresetName] = useState('');
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const nextKeyRef = useRef(0);
+
+  const isValidAppId = (id: string): boolean => {
+    const appIdPattern = /^[a-f0-9]{32}$/i;
+    return appIdPattern.test(id.trim());
+  };
+
+  const toChannelEntries = (names: string[]): MonitoredChannel[] => {
+    return names.map(name => ({ key: `m${nextKeyRef.current++}`, name }));
+  };
+
+  // Read the wall from the URL, or fall back to the last used App ID
+  useEffect(() => {
+    const savedPresets = loadMonitorPresets();
+    setPresets(savedPresets);
+
+    const urlParams = new URLSearchParams(window.location.search);
+    const urlMode = urlParams.get('mode') as AgoraMode | null;
+    const urlCodec = urlParams.get('codec') as AgoraCodec | null;
+    if (urlMode && MODES.includes(urlMode)) setMode(urlMode);
+    if (urlCodec && CODECS.includes(urlCodec)) setCodec(urlCodec);
+
+    const preset = savedPresets.find(entry => entry.name === urlParams.get('preset'));
+    if (preset) {
+      setAppId(preset.appId);
+      setChannels(toChannelEntries(preset.channels));
+      setPresetName(preset.name);
+    } else {
+      setAppId(urlParams.get('appId') || loadAgoraCredentials().appId);
+      const urlChannels = urlParams.getAll('channel').map(name => name.trim()).filter(Boolean);
+      setChannels(toChannelEntries([...new Set(urlChannels)]));
+    }
+    setHasLoaded(true);
+  }, []);
+
+  // Keep the URL shareable as channels come and go
+  useEffect(() => {
+    if (!hasLoaded) return;
+
+    const params = new URLSearchParams();
+    if (appId) params.set('appId', appId);
+    channels.forEach(entry => params.append('channel', entry.name));
+    if (mode !== 'rtc') params.set('mode', mode);
+    if (codec !== 'vp8') params.set('codec', codec);
+    window.history.replaceState(null, '', `${window.location.pathname}?${params}`);
+  }, [hasLoaded, appId, channels, mode, codec]);
+
+  const handleAddChannel = (event: FormEvent) => {
+    event.preventDefault();
+    const name = newChannel.trim();
+    if (!name) return;
+
+    if (!isValidAppId(appId)) {
+      setFormError('Enter a valid App ID before adding channels');
+      return;
+    }
+    if (channels.some(entry => entry.name === name)) {
+      setFormError(`"${name}" is already on the wall`);
+      return;
+    }
+
+    saveAgoraCredentials(appId);
+    setChannels([...channels, ...toChannelEntries([name])]);
+    setNewChannel('');
+    setFormError(null);
+  };
+
+  const handleRemoveChannel = (key: string) => {
+    setChannels(current => current.filter(entry => entry.key !== key));
+  };
+
+  const handleLoadPreset = (name: string) => {
+    const preset = presets.find(entry => entry.name === name);
+    if (!preset) return;
+
+    setAppId(preset.appId);
+    setChannels(toChannelEntries(preset.channels));
+    setPresetName(preset.name);
+    setFormError(null);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name || channels.length === 0) return;
+
+    setPresets(saveMonitorPreset({ name, appId, channels: channels.map(entry => entry.name) }));
+  };
+
+  const handleDeletePreset = () => {
+    setPresets(deleteMonitorPreset(presetName.trim()));
+  };
+
+  const { columns, rows } = getGridDimensions(channels.length);
+  const inputClassName = 'px-3 py-1.5 text-sm border border-gray-600 rounded-md bg-gray-800 text-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-60';
+  const buttonClassName = 'px-3 py-1.5 text-sm text-white rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="w-screen h-screen bg-black flex flex-col">
+      {/* Controls */}
+      <div className="flex flex-wrap items-center gap-2 p-2 bg-gray-900 text-white">
+        <span className="font-semibold mr-2">Monitor</span>
+
+        {/* Changing the App ID would restart every channel, so it's locked while any are shown */}
+        <input
+          type="text"
+          value={appId}
+          onChange={(e) => setAppId(e.target.value)}
+          disabled={channels.length > 0}
+          className={`${inputClassName} w-72`}
+          placeholder="32-character App ID"
+          maxLength={32}
+          title={channels.length > 0 ? 'Remove all channels to change the App ID' : undefined}
+        />
+
+        <form onSubmit={handleAddChannel} className="flex gap-2">
+          <input
+            type="text"
+            value={newChannel}
+            onChange={(e) => setNewChannel(e.target.value)}
+            className={`${inputClassName} w-48`}
+            placeholder="Channel name"
+          />
+          <button type="submit" disabled={!newChannel.trim()} className={buttonClassName}>
+            Add channel
+          </button>
+        </form>
+
+        <div className="flex gap-2 ml-auto">
+          <select
+            value={presets.some(preset => preset.name === presetName) ? presetName : ''}
+            onChange={(e) => handleLoadPreset(e.target.value)}
+            className={inputClassName}
+          >
+            <option value="">Load preset…</option>
+            {presets.map(preset => (
+              <option key={preset.name} value={preset.name}>
+                {preset.name} ({preset.channels.length})
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={presetName}
+            onChange={(e) => setPresetName(e.target.value)}
+            className={`${inputClassName} w-36`}
+            placeholder="Preset name"
+          />
+          <button onClick={handleSavePreset} disabled={!presetName.trim() || channels.length === 0} className={buttonClassName}>
+            Save
+          </button>
+          <button
+            onClick={handleDeletePreset}
+            disabled={!presets.some(preset => preset.name === presetName.trim())}
+            className={buttonClassName}
+          >
+            Delete
+          </button>
+        </div>
+
+        {formError && <p className="w-full text-sm text-red-400">{formError}</p>}
+      </div>
+
+      {/* Channel wall */}
+      {channels.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center text-center text-white">
+          <div>
+            <h2 className="text-xl font-semibold mb-2">No channels yet</h2>
+            <p className="opacity-80 text-sm">Add channels above, load a preset, or open a link with channel parameters.</p>
+            <p className="text-sm mt-4">
+              <Link href="/" className="underline opacity-80 hover:opacity-100">
+                Watch a single channel instead
+              </Link>
+            </p>
+          </div>
+        </div>
+      ) : (
+        <div
+          className="flex-1 min-h-0 grid gap-2 p-2"
+          style={{
+            gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+            gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`
+          }}
+        >
+          {channels.map(entry => (
+            <MonitorChannel
+              key={entry.key}
+              appId={appId.trim()}
+              channel={entry.name}
+              playerIdPrefix={`${entry.key}-user-`}
+              mode={mode}
+              codec={codec}
+              onRemove={() => handleRemoveChannel(entry.key)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
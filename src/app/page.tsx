@@ -1,16 +1,40 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
 import { useAgoraAudience } from '@/hooks/useAgoraAudience';
 import { saveAgoraCredentials, loadAgoraCredentials } from '@/lib/agora-utils';
+import type { AgoraCodec, AgoraMode, AudienceLatency } from '@/lib/agora-config';
+import VideoGallery, { GalleryLayout, getFocusedUid } from '@/components/VideoGallery';
+import StatsOverlay from '@/components/StatsOverlay';
+import ChatPanel from '@/components/ChatPanel';
+import ErrorNotice from '@/components/ErrorNotice';
+import AudioUnlockOverlay from '@/components/AudioUnlockOverlay';
+import AudioUserList from '@/components/AudioUserList';
+import RecorderControls from '@/components/RecorderControls';
+import { useStreamRecorder } from '@/hooks/useStreamRecorder';
+import SnapshotGallery from '@/components/SnapshotGallery';
+import { useSnapshots } from '@/hooks/useSnapshots';
+import { defaultLogger } from '@/lib/logger';
+import type { UID } from 'agora-rtc-sdk-ng';
 
 export default function Home() {
   const [appId, setAppId] = useState('');
-  const [appCertificate, setAppCertificate] = useState('');
   const [channel, setChannel] = useState('');
   const [uid, setUid] = useState('');
+  const [mode, setMode] = useState<AgoraMode>('rtc');
+  const [codec, setCodec] = useState<AgoraCodec>('vp8');
+  const [audienceLatency, setAudienceLatency] = useState<AudienceLatency>('low');
   const videoContainerRef = useRef<HTMLDivElement>(null);
   const [isFullscreen, setIsFullscreen] = useState(false);
+  const [layout, setLayout] = useState<GalleryLayout>('grid');
+  const [pinnedUid, setPinnedUid] = useState<UID | null>(null);
+  const [autoSpotlightSpeaker, setAutoSpotlightSpeaker] = useState(false);
+  const [showStats, setShowStats] = useState(false);
+  const [showChat, setShowChat] = useState(false);
+  const [seenChatCount, setSeenChatCount] = useState(0);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [isMuted, setIsMuted] = useState(false);
 
   // Load saved credentials on mount
   useEffect(() => {
@@ -18,9 +42,6 @@ export default function Home() {
     if (savedCredentials.appId) {
       setAppId(savedCredentials.appId);
     }
-    if (savedCredentials.appCertificate) {
-      setAppCertificate(savedCredentials.appCertificate);
-    }
   }, []);
 
   const isValidAppId = (id: string): boolean => {
@@ -33,24 +54,115 @@ export default function Home() {
     isJoining,
     remoteUsers,
     error,
+    tokenRenewal,
+    connectionState,
+    connectionReason,
+    rejoin,
+    audioLevels,
+    activeSpeakerUid,
+    setFocusedUid,
+    userAudio,
+    setUserAudio,
+    isAutoplayBlocked,
+    resumeAudio,
+    statsHistory,
+    captureSnapshot,
+    chatMessages,
+    chatError,
+    sendChatMessage,
+    downloadDiagnostics,
     joinChannel,
-    leaveChannel
+    leaveChannel,
+    rejoinChannel
   } = useAgoraAudience({
     appId,
-    appCertificate,
     channel,
-    uid: uid || undefined
+    uid: uid || undefined,
+    mode,
+    codec,
+    audienceLatency,
+    playRemoteAudio: !isMuted,
+    collectStats: showStats
   });
 
+  const videoUsers = remoteUsers.filter(user => user.hasVideo);
+  const audioOnlyUsers = remoteUsers.filter(user => user.hasAudio && !user.hasVideo);
+
+  const {
+    recording,
+    recordingError,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    setRecordingTarget
+  } = useStreamRecorder(remoteUsers, channel || 'recording');
+
+  // Messages that arrived while the chat panel was closed
+  useEffect(() => {
+    if (showChat) {
+      setSeenChatCount(chatMessages.length);
+    }
+  }, [showChat, chatMessages.length]);
+  const unreadChatCount = Math.max(0, chatMessages.length - seenChatCount);
+
+  // Only the spotlighted user needs the high stream; in the grid everyone gets it
+  const isSpotlightView = layout === 'spotlight' && videoUsers.length > 1;
+  const focusedUid = isSpotlightView
+    ? getFocusedUid(videoUsers, pinnedUid, autoSpotlightSpeaker ? activeSpeakerUid : null)
+    : null;
+
+  useEffect(() => {
+    setFocusedUid(focusedUid);
+  }, [focusedUid, setFocusedUid]);
+
+  const { snapshots, snapshotError, takeSnapshots, downloadSnapshot, clearSnapshots } = useSnapshots(
+    captureSnapshot,
+    { channel }
+  );
+
+  // Snapshot the spotlighted or pinned user, otherwise everyone on screen
+  const handleSnapshot = async () => {
+    const pinnedVideoUid = videoUsers.some(user => user.uid === pinnedUid) ? pinnedUid : null;
+    const targetUid = focusedUid ?? pinnedVideoUid;
+    await takeSnapshots(targetUid !== null ? [targetUid] : videoUsers.map(user => user.uid));
+    setShowSnapshots(true);
+  };
+  // The keyboard listener is registered once, so it calls through a ref
+  const snapshotHandlerRef = useRef(handleSnapshot);
+  snapshotHandlerRef.current = handleSnapshot;
+
+  // Pinning a user brings them into the spotlight; clicking again unpins
+  const togglePin = (targetUid: UID) => {
+    if (pinnedUid === targetUid) {
+      setPinnedUid(null);
+    } else {
+      setPinnedUid(targetUid);
+      setLayout('spotlight');
+    }
+  };
+
   const handleJoin = async () => {
     // Save credentials before joining
     if (appId) {
-      saveAgoraCredentials(appId, appCertificate);
+      saveAgoraCredentials(appId);
     }
 
     await joinChannel();
   };
 
+  const handleDownloadDiagnostics = () => {
+    downloadDiagnostics().catch(err => {
+      defaultLogger.error('ui', 'Failed to collect diagnostics', err);
+    });
+  };
+
+  // Finish (and download) a recording in progress before leaving
+  const handleLeave = async () => {
+    await stopRecording();
+    await leaveChannel();
+  };
+
   const toggleFullscreen = async () => {
     if (!videoContainerRef.current) return;
 
@@ -98,7 +210,7 @@ export default function Home() {
         setIsFullscreen(false);
       }
     } catch (error) {
-      console.error('Fullscreen error:', error);
+      defaultLogger.error('ui', 'Fullscreen error', error);
     }
   };
 
@@ -148,6 +260,26 @@ export default function Home() {
         event.preventDefault();
         toggleFullscreen();
       }
+      // I key toggles the stats overlay (when not in input)
+      if (event.key === 'i' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        setShowStats(show => !show);
+      }
+      // C key toggles the chat panel (when not in input)
+      if (event.key === 'c' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        setShowChat(show => !show);
+      }
+      // S key saves a snapshot (when not in input)
+      if (event.key === 's' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        void snapshotHandlerRef.current();
+      }
+      // M key mutes or unmutes everyone (when not in input)
+      if (event.key === 'm' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        setIsMuted(muted => !muted);
+      }
     };
 
     document.addEventListener('keydown', handleKeyPress);
@@ -166,13 +298,98 @@ export default function Home() {
             <div className="text-white">
               <h1 className="text-lg font-semibold">Channel: {channel}</h1>
               <p className="text-sm opacity-80">
-                Connected as audience • {remoteUsers.filter(user => user.hasVideo).length} video stream(s)
-                {remoteUsers.length > remoteUsers.filter(user => user.hasVideo).length &&
-                  ` • ${remoteUsers.length - remoteUsers.filter(user => user.hasVideo).length} audio-only`
+                Connected as audience ({mode === 'live' ? `live, ${audienceLatency} latency` : 'rtc'}, {codec}) • {videoUsers.length} video stream(s)
+                {remoteUsers.length > videoUsers.length &&
+                  ` • ${remoteUsers.length - videoUsers.length} audio-only`
                 }
               </p>
+              {connectionState !== 'connected' && (
+                <p className="text-xs text-yellow-300 mt-1">
+                  {connectionState === 'reconnecting'
+                    ? 'Connection interrupted, reconnecting…'
+                    : connectionState === 'connecting'
+                    ? 'Connecting…'
+                    : rejoin && rejoin.status !== 'failed' && rejoin.status !== 'rejoined'
+                    ? `Disconnected (${rejoin.reason}), rejoining${rejoin.status === 'scheduled' ? ` in ${Math.round((rejoin.nextRetryMs || 0) / 1000)}s` : '…'} (attempt ${rejoin.attempt})`
+                    : `Disconnected${connectionReason ? ` (${connectionReason})` : ''}`
+                  }
+                </p>
+              )}
+              {tokenRenewal && (tokenRenewal.status === 'retrying' || tokenRenewal.status === 'failed') && (
+                <p className="text-xs text-yellow-300 mt-1">
+                  {tokenRenewal.status === 'retrying'
+                    ? `Token renewal failed, retrying in ${Math.round((tokenRenewal.nextRetryMs || 0) / 1000)}s (attempt ${tokenRenewal.attempt})`
+                    : `Token renewal failed: ${tokenRenewal.error || 'Unknown error'}`
+                  }
+                </p>
+              )}
+              {/* Rejoins and token renewals that gave up; Retry starts over with a fresh token */}
+              {error && (
+                <div className="mt-2 max-w-md">
+                  <ErrorNotice error={error} onRetry={rejoinChannel} />
+                </div>
+              )}
             </div>
             <div className="flex gap-2">
+              {videoUsers.length > 1 && (
+                <button
+                  onClick={() => {
+                    if (!autoSpotlightSpeaker) {
+                      setLayout('spotlight');
+                    }
+                    setAutoSpotlightSpeaker(!autoSpotlightSpeaker);
+                  }}
+                  className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-green-500 ${
+                    autoSpotlightSpeaker ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-700 hover:bg-gray-600'
+                  }`}
+                  title="Automatically spotlight the active speaker"
+                >
+                  Follow Speaker
+                </button>
+              )}
+              {videoUsers.length > 1 && (
+                <button
+                  onClick={() => setLayout(layout === 'grid' ? 'spotlight' : 'grid')}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                  title="Switch layout"
+                >
+                  {layout === 'grid' ? 'Spotlight' : 'Grid'}
+                </button>
+              )}
+              {videoUsers.length > 0 && (
+                <button
+                  onClick={handleSnapshot}
+                  className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                  title="Save a snapshot (S)"
+                >
+                  📷 Snapshot
+                </button>
+              )}
+              <button
+                onClick={() => setIsMuted(!isMuted)}
+                className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 ${
+                  isMuted ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title={isMuted ? 'Unmute everyone (M)' : 'Mute everyone (M)'}
+              >
+                {isMuted ? '🔇 Muted' : '🔊 Sound'}
+              </button>
+              <button
+                onClick={() => setShowChat(!showChat)}
+                className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 focus:ring-gray-500 ${
+                  showChat ? 'bg-gray-500 hover:bg-gray-600' : 'bg-gray-700 hover:bg-gray-600'
+                }`}
+                title="Toggle chat (C)"
+              >
+                💬 Chat{!showChat && unreadChatCount > 0 && ` (${unreadChatCount})`}
+              </button>
+              <button
+                onClick={handleDownloadDiagnostics}
+                className="px-4 py-2 bg-gray-700 text-white rounded-md hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                title="Download recent logs and connection details for a bug report"
+              >
+                🩺 Diagnostics
+              </button>
               <button
                 onClick={toggleFullscreen}
                 className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -189,7 +406,7 @@ export default function Home() {
                 )}
               </button>
               <button
-                onClick={leaveChannel}
+                onClick={handleLeave}
                 className="px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
               >
                 Leave Channel
@@ -201,13 +418,13 @@ export default function Home() {
         {/* Main video area */}
         <div
           ref={videoContainerRef}
-          className={`w-screen h-screen flex items-center justify-center ${
+          className={`relative w-screen h-screen flex items-center justify-center ${
             isFullscreen ? 'bg-black' : ''
           }`}
           onDoubleClick={toggleFullscreen}
           style={{ cursor: 'pointer' }}
         >
-          {remoteUsers.filter(user => user.hasVideo).length === 0 ? (
+          {videoUsers.length === 0 ? (
             <div className="text-center text-white">
               <div className="mb-4">
                 <svg className="w-16 h-16 mx-auto opacity-50" fill="currentColor" viewBox="0 0 20 20">
@@ -223,65 +440,63 @@ export default function Home() {
               </p>
             </div>
           ) : (
-            <div className="flex items-center justify-center w-full h-full">
-              {remoteUsers.filter(user => user.hasVideo).map((user) => (
-                <div
-                  key={user.uid}
-                  className="relative bg-gray-900 rounded-lg overflow-hidden"
-                  style={{
-                    width: isFullscreen ? '100vw' : '80vw',
-                    height: isFullscreen ? '100vh' : '80vh',
-                    maxWidth: isFullscreen ? '100vw' : '80vw',
-                    maxHeight: isFullscreen ? '100vh' : '80vh',
-                    borderRadius: isFullscreen ? '0' : '0.5rem'
-                  }}
-                >
-                  {/* User info overlay */}
-                  <div className="absolute top-4 left-4 z-10">
-                    <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded">
-                      <p className="text-sm font-medium">User: {user.uid}</p>
-                      <div className="flex gap-2 mt-1">
-                        {user.hasVideo && (
-                          <span className="text-xs bg-blue-600 px-2 py-1 rounded">
-                            📹 Video
-                          </span>
-                        )}
-                        {user.hasAudio && (
-                          <span className="text-xs bg-green-600 px-2 py-1 rounded">
-                            🎵 Audio
-                          </span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-
-                  {/* Video container */}
-                  <div
-                    id={`user-${user.uid}`}
-                    className="w-full h-full bg-black"
-                    style={{
-                      width: '100%',
-                      height: '100%',
-                      position: 'relative'
-                    }}
-                  >
-                    {!user.hasVideo && (
-                      <div className="absolute inset-0 flex items-center justify-center text-center text-white z-10">
-                        <div>
-                          <div className="mb-4">
-                            <svg className="w-16 h-16 mx-auto opacity-50" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M9.383 3.076A1 1 0 0110 4v12a1 1 0 01-1.617.82L4.73 14H2a1 1 0 01-1-1V7a1 1 0 011-1h2.73l3.653-2.82a1 1 0 01.617-.204zM14.657 2.929a1 1 0 011.414 0A9.972 9.972 0 0119 10a9.972 9.972 0 01-2.929 7.071 1 1 0 01-1.414-1.414A7.971 7.971 0 0017 10c0-2.21-.894-4.208-2.343-5.657a1 1 0 010-1.414zm-2.829 2.828a1 1 0 011.415 0A5.983 5.983 0 0115 10a5.984 5.984 0 01-1.757 4.243 1 1 0 01-1.415-1.414A3.984 3.984 0 0013 10a3.983 3.983 0 00-1.172-2.828 1 1 0 010-1.415z" clipRule="evenodd" />
-                            </svg>
-                          </div>
-                          <p className="text-lg">Audio Only</p>
-                          <p className="text-sm opacity-80">No video available</p>
-                        </div>
-                      </div>
-                    )}
-                  </div>
-                </div>
-              ))}
-            </div>
+            <VideoGallery
+              users={videoUsers}
+              layout={layout}
+              pinnedUid={pinnedUid}
+              onTogglePin={togglePin}
+              isFullscreen={isFullscreen}
+              audioLevels={audioLevels}
+              activeSpeakerUid={activeSpeakerUid}
+              autoFocusUid={autoSpotlightSpeaker ? activeSpeakerUid : null}
+              userAudio={userAudio}
+              onUserAudioChange={setUserAudio}
+            />
+          )}
+
+          <AudioUserList
+            users={audioOnlyUsers}
+            audioLevels={audioLevels}
+            activeSpeakerUid={activeSpeakerUid}
+            userAudio={userAudio}
+            onUserAudioChange={setUserAudio}
+          />
+
+          {isAutoplayBlocked && !isMuted && <AudioUnlockOverlay onResume={resumeAudio} />}
+
+          {showStats && (
+            <StatsOverlay history={statsHistory} onClose={() => setShowStats(false)} />
+          )}
+
+          {showSnapshots && (
+            <SnapshotGallery
+              snapshots={snapshots}
+              onDownload={downloadSnapshot}
+              onClear={clearSnapshots}
+              onClose={() => setShowSnapshots(false)}
+              error={snapshotError}
+            />
+          )}
+
+          <RecorderControls
+            users={remoteUsers}
+            recording={recording}
+            error={recordingError}
+            onStart={startRecording}
+            onPause={pauseRecording}
+            onResume={resumeRecording}
+            onStop={stopRecording}
+            onTargetChange={setRecordingTarget}
+          />
+
+          {showChat && (
+            <ChatPanel
+              messages={chatMessages}
+              onSend={sendChatMessage}
+              error={chatError}
+              onClose={() => setShowChat(false)}
+              className={`absolute right-4 z-30 w-80 ${showStats ? 'top-24 h-[40vh]' : 'top-24 bottom-4'}`}
+            />
           )}
         </div>
       </div>
@@ -347,23 +562,57 @@ export default function Home() {
                 value={uid}
                 onChange={(e) => setUid(e.target.value)}
                 className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                placeholder="Auto-generated if empty"
+                placeholder="Number or account name; auto-assigned if empty"
               />
             </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                App Certificate (optional)
-              </label>
-              <input
-                type="password"
-                value={appCertificate}
-                onChange={(e) => setAppCertificate(e.target.value)}
-                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
-                placeholder="For secure token generation"
-              />
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Mode
+                </label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as AgoraMode)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="rtc">RTC (communication)</option>
+                  <option value="live">Live broadcast</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Codec
+                </label>
+                <select
+                  value={codec}
+                  onChange={(e) => setCodec(e.target.value as AgoraCodec)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="vp8">VP8</option>
+                  <option value="vp9">VP9</option>
+                  <option value="h264">H.264</option>
+                </select>
+              </div>
             </div>
 
+            {mode === 'live' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Audience Latency
+                </label>
+                <select
+                  value={audienceLatency}
+                  onChange={(e) => setAudienceLatency(e.target.value as AudienceLatency)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="low">Low latency</option>
+                  <option value="ultra-low">Ultra-low latency</option>
+                </select>
+              </div>
+            )}
+
             <button
               onClick={handleJoin}
               disabled={!appId || !channel || isJoining}
@@ -372,12 +621,25 @@ export default function Home() {
               {isJoining ? 'Joining...' : 'Join as Audience'}
             </button>
 
+            {error && <ErrorNotice error={error} onRetry={handleJoin} />}
             {error && (
-              <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-md">
-                <p className="font-medium">Error:</p>
-                <p className="text-sm">{error}</p>
-              </div>
+              <button
+                onClick={handleDownloadDiagnostics}
+                className="w-full text-sm text-gray-500 dark:text-gray-400 underline hover:text-gray-700 dark:hover:text-gray-200"
+              >
+                Download diagnostics for a bug report
+              </button>
             )}
+
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+              <Link href="/publish" className="underline hover:text-gray-700 dark:hover:text-gray-200">
+                Broadcast to a channel instead
+              </Link>
+              {' · '}
+              <Link href="/monitor" className="underline hover:text-gray-700 dark:hover:text-gray-200">
+                Monitor several channels
+              </Link>
+            </p>
           </div>
         </div>
       </div>
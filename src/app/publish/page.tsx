@@ -0,0 +1,318 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useAgoraPublisher } from '@/hooks/useAgoraPublisher';
+import DevicePicker from '@/components/DevicePicker';
+import ChatPanel from '@/components/ChatPanel';
+import ErrorNotice from '@/components/ErrorNotice';
+import { saveAgoraCredentials, loadAgoraCredentials } from '@/lib/agora-utils';
+import type { AgoraCodec, AgoraMode } from '@/lib/agora-config';
+
+export default function PublishPage() {
+  const [appId, setAppId] = useState('');
+  const [channel, setChannel] = useState('');
+  const [uid, setUid] = useState('');
+  const [mode, setMode] = useState<AgoraMode>('rtc');
+  const [codec, setCodec] = useState<AgoraCodec>('vp8');
+  const [shareAudio, setShareAudio] = useState(false);
+  // What Retry repeats: the preview or the go-live step, whichever was started last
+  const [lastAction, setLastAction] = useState<'preview' | 'go-live' | null>(null);
+
+  // Load saved credentials on mount
+  useEffect(() => {
+    const savedCredentials = loadAgoraCredentials();
+    if (savedCredentials.appId) {
+      setAppId(savedCredentials.appId);
+    }
+  }, []);
+
+  const isValidAppId = (id: string): boolean => {
+    const appIdPattern = /^[a-f0-9]{32}$/i;
+    return appIdPattern.test(id.trim());
+  };
+
+  const {
+    isPreviewing,
+    isLive,
+    isStarting,
+    isMicMuted,
+    isCameraOff,
+    error,
+    startPreview,
+    stopPreview,
+    goLive,
+    stopLive,
+    toggleMic,
+    toggleCamera,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+    cameras,
+    microphones,
+    cameraId,
+    microphoneId,
+    videoProfile,
+    setCamera,
+    setMicrophone,
+    setVideoProfile,
+    chatMessages,
+    chatError,
+    sendChatMessage
+  } = useAgoraPublisher({
+    appId,
+    channel,
+    uid: uid || undefined,
+    mode,
+    codec
+  });
+
+  const handleStartPreview = async () => {
+    setLastAction('preview');
+    await startPreview();
+  };
+
+  const handleGoLive = async () => {
+    setLastAction('go-live');
+
+    // Save credentials before joining
+    if (appId) {
+      saveAgoraCredentials(appId);
+    }
+
+    await goLive();
+  };
+
+  // The session is bound to the settings it was started with
+  const isLocked = isPreviewing || isLive || isStarting;
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white disabled:opacity-60';
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center p-4">
+      <div className="w-full max-w-5xl grid gap-6 md:grid-cols-[2fr_1fr]">
+        {/* Self-view */}
+        <div className="relative bg-black rounded-lg overflow-hidden aspect-video">
+          <div id="local-player" className="w-full h-full" />
+
+          {!isPreviewing && (
+            <div className="absolute inset-0 flex items-center justify-center text-center text-white">
+              <div>
+                <h2 className="text-xl font-semibold mb-2">Camera preview is off</h2>
+                <p className="opacity-80 text-sm">Start the preview to check your camera and microphone</p>
+              </div>
+            </div>
+          )}
+
+          {isPreviewing && isCameraOff && !isScreenSharing && (
+            <div className="absolute inset-0 flex items-center justify-center text-white bg-gray-900">
+              <p className="text-lg">Camera off</p>
+            </div>
+          )}
+
+          {isLive && (
+            <div className="absolute top-4 left-4 z-10 flex items-center gap-2 bg-red-600 text-white text-sm font-semibold px-3 py-1 rounded">
+              <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
+              LIVE • {channel}
+            </div>
+          )}
+
+          {isPreviewing && (
+            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 z-10 flex gap-2">
+              <button
+                onClick={toggleMic}
+                className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 ${
+                  isMicMuted ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : 'bg-gray-700 hover:bg-gray-600 focus:ring-gray-500'
+                }`}
+                title={isMicMuted ? 'Unmute microphone' : 'Mute microphone'}
+              >
+                {isMicMuted ? '🔇 Mic off' : '🎤 Mic on'}
+              </button>
+              <button
+                onClick={toggleCamera}
+                className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 ${
+                  isCameraOff ? 'bg-red-600 hover:bg-red-700 focus:ring-red-500' : 'bg-gray-700 hover:bg-gray-600 focus:ring-gray-500'
+                }`}
+                title={isCameraOff ? 'Turn camera on' : 'Turn camera off'}
+              >
+                {isCameraOff ? '🚫 Camera off' : '📹 Camera on'}
+              </button>
+              <button
+                onClick={() => (isScreenSharing ? stopScreenShare() : startScreenShare(shareAudio))}
+                className={`px-4 py-2 text-white rounded-md focus:outline-none focus:ring-2 ${
+                  isScreenSharing ? 'bg-blue-600 hover:bg-blue-700 focus:ring-blue-500' : 'bg-gray-700 hover:bg-gray-600 focus:ring-gray-500'
+                }`}
+                title={isScreenSharing ? 'Switch back to the camera' : 'Share your screen instead of the camera'}
+              >
+                {isScreenSharing ? '⏹️ Stop sharing' : '🖥️ Share screen'}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Settings and controls */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-lg p-6">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 text-center">
+            Agora Publisher
+          </h1>
+
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                App ID *
+              </label>
+              <input
+                type="text"
+                value={appId}
+                onChange={(e) => setAppId(e.target.value)}
+                disabled={isLocked}
+                className={inputClassName}
+                placeholder="32-character App ID"
+                maxLength={32}
+              />
+              {appId && !isValidAppId(appId) && (
+                <p className="text-xs mt-1 text-red-600">
+                  {appId.length}/32 ✗ Invalid format
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Channel Name *
+              </label>
+              <input
+                type="text"
+                value={channel}
+                onChange={(e) => setChannel(e.target.value)}
+                disabled={isLocked}
+                className={inputClassName}
+                placeholder="Enter channel name"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                User ID (optional)
+              </label>
+              <input
+                type="text"
+                value={uid}
+                onChange={(e) => setUid(e.target.value)}
+                disabled={isLocked}
+                className={inputClassName}
+                placeholder="Number or account name; auto-assigned if empty"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Mode
+                </label>
+                <select
+                  value={mode}
+                  onChange={(e) => setMode(e.target.value as AgoraMode)}
+                  disabled={isLocked}
+                  className={inputClassName}
+                >
+                  <option value="rtc">RTC (communication)</option>
+                  <option value="live">Live broadcast</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                  Codec
+                </label>
+                <select
+                  value={codec}
+                  onChange={(e) => setCodec(e.target.value as AgoraCodec)}
+                  disabled={isLocked}
+                  className={inputClassName}
+                >
+                  <option value="vp8">VP8</option>
+                  <option value="vp9">VP9</option>
+                  <option value="h264">H.264</option>
+                </select>
+              </div>
+            </div>
+
+            {/* Devices can be switched at any time, including while live */}
+            <DevicePicker
+              cameras={cameras}
+              microphones={microphones}
+              cameraId={cameraId}
+              microphoneId={microphoneId}
+              videoProfile={videoProfile}
+              onCameraChange={setCamera}
+              onMicrophoneChange={setMicrophone}
+              onVideoProfileChange={setVideoProfile}
+              disabled={isStarting}
+            />
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={shareAudio}
+                onChange={(e) => setShareAudio(e.target.checked)}
+                disabled={isScreenSharing}
+              />
+              Include tab or system audio when sharing the screen
+            </label>
+
+            {!isLive && (
+              <button
+                onClick={isPreviewing ? stopPreview : handleStartPreview}
+                disabled={isStarting}
+                className="w-full px-6 py-2 bg-gray-600 text-white rounded-md hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-gray-500 disabled:bg-gray-400 disabled:cursor-not-allowed"
+              >
+                {isPreviewing ? 'Stop Preview' : 'Start Preview'}
+              </button>
+            )}
+
+            {isLive ? (
+              <button
+                onClick={stopLive}
+                className="w-full px-6 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 text-lg font-medium"
+              >
+                Stop Broadcast
+              </button>
+            ) : (
+              <button
+                onClick={handleGoLive}
+                disabled={!isValidAppId(appId) || !channel || isStarting}
+                className="w-full px-6 py-3 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:bg-gray-400 disabled:cursor-not-allowed text-lg font-medium"
+              >
+                {isStarting ? 'Going live...' : 'Go Live'}
+              </button>
+            )}
+
+            {/* Retry repeats the step that failed; errors while live aren't retried from here */}
+            {error && (
+              <ErrorNotice
+                error={error}
+                onRetry={isLive ? undefined : lastAction === 'go-live' ? handleGoLive : handleStartPreview}
+              />
+            )}
+
+            <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+              <Link href="/" className="underline hover:text-gray-700 dark:hover:text-gray-200">
+                Watch a channel instead
+              </Link>
+            </p>
+          </div>
+        </div>
+
+        {/* Viewers can write back while the broadcast is live */}
+        {isLive && (
+          <ChatPanel
+            messages={chatMessages}
+            onSend={sendChatMessage}
+            error={chatError}
+            className="md:col-span-2 h-72"
+          />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,69 +1,249 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { CSSProperties } from 'react';
+import type { UID } from 'agora-rtc-sdk-ng';
 import { useAgoraAudience } from '@/hooks/useAgoraAudience';
+import { InviteRedemptionError, redeemVideoInvite } from '@/lib/agora-utils';
+import { AgoraConfigError } from '@/lib/agora-errors';
+import { createInviteTokenProvider } from '@/lib/token-providers';
+import { getErrorRemediation } from '@/components/ErrorNotice';
+import StatsOverlay from '@/components/StatsOverlay';
+import SnapshotGallery from '@/components/SnapshotGallery';
+import AudioUnlockOverlay from '@/components/AudioUnlockOverlay';
+import { useSnapshots } from '@/hooks/useSnapshots';
+import { useEmbedControl } from '@/hooks/useEmbedControl';
+import type { EmbedCommand } from '@/lib/embed-protocol';
+import { getGridDimensions } from '@/lib/grid-layout';
+import { DEFAULT_KIOSK_OPTIONS, KioskOptions, parseKioskOptions } from '@/lib/kiosk-options';
+import { DEFAULT_PLAYER_ID_PREFIX } from '@/lib/agora-config';
+import type { AgoraCodec, AgoraMode, AudienceLatency } from '@/lib/agora-config';
+import { defaultLogger } from '@/lib/logger';
+
+const MODES: AgoraMode[] = ['rtc', 'live'];
+const CODECS: AgoraCodec[] = ['vp8', 'vp9', 'h264'];
+const AUDIENCE_LATENCIES: AudienceLatency[] = ['low', 'ultra-low'];
+
+// Matches the client's longest rejoin backoff
+const JOIN_RETRY_DELAY_MS = 60000;
+
+const INVITE_ERROR_TITLES: Record<string, string> = {
+  'missing': 'Invite Required',
+  'invalid': 'Invalid Invite',
+  'expired': 'Invite Expired',
+  'exhausted': 'Invite Already Used',
+  'not-configured': 'Invites Unavailable',
+  'options': 'Invalid Display Options'
+};
 
 export default function VideoPage() {
   const [appId, setAppId] = useState('');
-  const [appCertificate, setAppCertificate] = useState('');
   const [channel, setChannel] = useState('');
   const [uid, setUid] = useState('');
+  const [mode, setMode] = useState<AgoraMode>('rtc');
+  const [codec, setCodec] = useState<AgoraCodec>('vp8');
+  const [audienceLatency, setAudienceLatency] = useState<AudienceLatency>('low');
   const [error, setError] = useState<string | null>(null);
+  // Set when the invite itself was refused, to pick the error heading
+  const [errorCode, setErrorCode] = useState<string | null>(null);
+  const [inviteToken, setInviteToken] = useState<string | null>(null);
+  const [inviteSession, setInviteSession] = useState<string | null>(null);
+  const hasJoinStartedRef = useRef(false);
   const [loading, setLoading] = useState(true);
+  const [showStats, setShowStats] = useState(false);
+  const [showSnapshots, setShowSnapshots] = useState(false);
+  const [options, setOptions] = useState<KioskOptions>(DEFAULT_KIOSK_OPTIONS);
+  const [isMuted, setIsMuted] = useState(false);
+  const [volume, setVolume] = useState(100);
+  // Chosen by an embedding page; overrides the link's target
+  const [selectedUid, setSelectedUid] = useState<UID | null>(null);
+  // Without a target, the main view sticks with one user until they leave
+  const [stickyUid, setStickyUid] = useState<UID | null>(null);
   const videoContainerRef = useRef<HTMLDivElement>(null);
 
+  // Renewals and rejoins get their tokens from the invite, never from the open token route
+  const tokenProvider = useMemo(
+    () => inviteSession ? createInviteTokenProvider(inviteSession) : undefined,
+    [inviteSession]
+  );
+
+  const remoteVideoPlayerConfig = useMemo(
+    () => ({ fit: options.fit, mirror: options.mirror }),
+    [options.fit, options.mirror]
+  );
+
   const {
     remoteUsers,
     error: agoraError,
-    joinChannel
+    isJoined,
+    joinedUid,
+    connectionState,
+    rejoin,
+    statsHistory,
+    captureSnapshot,
+    isAutoplayBlocked,
+    resumeAudio,
+    joinChannel,
+    leaveChannel,
+    rejoinChannel
   } = useAgoraAudience({
     appId,
-    appCertificate,
     channel,
-    uid: uid || undefined
+    uid: uid || undefined,
+    mode,
+    codec,
+    audienceLatency,
+    tokenProvider,
+    playRemoteAudio: !isMuted,
+    remoteAudioVolume: volume,
+    remoteVideoPlayerConfig,
+    collectStats: showStats,
+    // Nobody is around to press Retry on a kiosk
+    retryIndefinitely: true
+  });
+
+  const { snapshots, snapshotError, takeSnapshots, downloadSnapshot, clearSnapshots } = useSnapshots(
+    captureSnapshot,
+    { channel }
+  );
+
+  // Kiosks have no toolbar, so snapshots are hotkey-only and cover every video on screen
+  const handleSnapshot = async () => {
+    await takeSnapshots(remoteUsers.filter(user => user.hasVideo).map(user => user.uid));
+    setShowSnapshots(true);
+  };
+  const snapshotHandlerRef = useRef(handleSnapshot);
+  snapshotHandlerRef.current = handleSnapshot;
+
+  // Retry a failed join on our own. The invite session signs the token, because reloading would
+  // redeem the invite again and use up its maxUses. Leaves first if still joined.
+  const retryJoin = () => {
+    setError(null);
+    void rejoinChannel();
+  };
+  const retryJoinRef = useRef(retryJoin);
+  retryJoinRef.current = retryJoin;
+
+  const isJoinRetryable = !isJoined && !!inviteSession && !!agoraError?.retryable;
+  useEffect(() => {
+    if (!isJoinRetryable) return;
+
+    const timer = setTimeout(() => retryJoinRef.current(), JOIN_RETRY_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [isJoinRetryable, agoraError]);
+
+  const handleEmbedCommand = (command: EmbedCommand) => {
+    switch (command.command) {
+      case 'mute':
+        setIsMuted(true);
+        break;
+      case 'unmute':
+        setIsMuted(false);
+        break;
+      case 'set-volume':
+        setVolume(command.volume);
+        break;
+      case 'select-uid':
+        setSelectedUid(command.uid);
+        break;
+      case 'toggle-fullscreen':
+        // Browsers often refuse fullscreen without a click inside the iframe, so report it
+        void toggleFullscreen(fullscreenError => postEvent({
+          event: 'error',
+          code: 'fullscreen',
+          message: fullscreenError instanceof Error ? fullscreenError.message : 'Fullscreen request failed'
+        }));
+        break;
+      case 'leave':
+        void leaveChannel();
+        break;
+      case 'rejoin':
+        // The invite's first token may have expired by now, so get a fresh one as renewals do
+        retryJoin();
+        break;
+    }
+  };
+
+  const { postEvent } = useEmbedControl({
+    channel,
+    uid: joinedUid,
+    isJoined,
+    remoteUsers,
+    connectionState,
+    error: agoraError
+      ? { code: agoraError.code, message: agoraError.message }
+      : error ? { code: errorCode ?? 'unknown', message: error } : null,
+    onCommand: handleEmbedCommand
   });
 
-  // Load query parameters and auto-join on mount
+  // Redeem the invite on mount; links never carry credentials or channel settings directly,
+  // only display options
   useEffect(() => {
     const urlParams = new URLSearchParams(window.location.search);
-    const queryAppId = urlParams.get('appId');
-    const queryAppCertificate = urlParams.get('cert');
-    const queryChannel = urlParams.get('channel');
-    const queryUid = urlParams.get('uid');
+    const invite = urlParams.get('invite');
 
-    if (!queryAppId || !queryAppCertificate || !queryChannel) {
-      setError('Missing required parameters: appId, cert, and channel are required');
+    // Checked first, so a typo doesn't use up a limited invite
+    const parsedOptions = parseKioskOptions(urlParams);
+    if (parsedOptions.problems.length > 0) {
+      setErrorCode('options');
+      setError(parsedOptions.problems.join('. '));
       setLoading(false);
       return;
     }
+    setOptions(parsedOptions.options);
+    setIsMuted(parsedOptions.options.muted);
 
-    // Validate App ID format
-    const appIdPattern = /^[a-f0-9]{32}$/i;
-    if (!appIdPattern.test(queryAppId)) {
-      setError('Invalid App ID format. App ID should be a 32-character hexadecimal string.');
+    if (!invite) {
+      setErrorCode('missing');
+      setError(urlParams.has('appId') || urlParams.has('channel')
+        ? 'Links with appId and channel parameters are no longer supported. Ask for a new invite link.'
+        : 'Missing invite. Open this page with the invite link you were given.');
       setLoading(false);
       return;
     }
 
-    setAppId(queryAppId);
-    setAppCertificate(queryAppCertificate);
-    setChannel(queryChannel);
-    setUid(queryUid || '');
-
-    // Auto-join after setting the values
-    setTimeout(async () => {
-      try {
-        setLoading(false);
-        await joinChannel();
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to join channel');
+    redeemVideoInvite(invite)
+      .then(redemption => {
+        setAppId(redemption.appId);
+        setChannel(redemption.channel);
+        setUid(String(redemption.uid || ''));
+        setMode(MODES.includes(redemption.mode) ? redemption.mode : 'rtc');
+        setCodec(CODECS.includes(redemption.codec) ? redemption.codec : 'vp8');
+        setAudienceLatency(AUDIENCE_LATENCIES.includes(redemption.latency) ? redemption.latency : 'low');
+        setInviteSession(redemption.session);
+        setInviteToken(redemption.token);
+      })
+      .catch(err => {
+        setErrorCode(err instanceof InviteRedemptionError ? err.code : null);
+        setError(err instanceof Error ? err.message : 'Failed to redeem invite');
         setLoading(false);
-      }
-    }, 1000);
-  }, [joinChannel]);
+      });
+  }, []);
+
+  // Join once the redeemed settings have been applied
+  useEffect(() => {
+    if (!inviteToken || !appId || !channel || hasJoinStartedRef.current) return;
+
+    hasJoinStartedRef.current = true;
+    setLoading(false);
+    joinChannel(inviteToken).catch(err => {
+      setError(err instanceof Error ? err.message : 'Failed to join channel');
+    });
+  }, [inviteToken, appId, channel, joinChannel]);
+
+  // Without a target, keep featuring the same user until they leave
+  useEffect(() => {
+    if (selectedUid !== null || options.target !== null) return;
+
+    const videoUids = remoteUsers.filter(user => user.hasVideo).map(user => user.uid);
+    if (stickyUid !== null && videoUids.includes(stickyUid)) return;
+    if (stickyUid === null || options.onLeave === 'next') {
+      setStickyUid(videoUids[0] ?? null);
+    }
+  }, [remoteUsers, stickyUid, selectedUid, options.target, options.onLeave]);
 
   // Fullscreen functionality (removed since not used in video-only mode)
-  const toggleFullscreen = async () => {
+  const toggleFullscreen = async (onError?: (error: unknown) => void) => {
     if (!videoContainerRef.current) return;
 
     interface FullscreenElement extends HTMLElement {
@@ -104,7 +284,8 @@ export default function VideoPage() {
         }
       }
     } catch (error) {
-      console.error('Fullscreen error:', error);
+      defaultLogger.error('ui', 'Fullscreen error', error);
+      onError?.(error);
     }
   };
 
@@ -119,6 +300,18 @@ export default function VideoPage() {
         event.preventDefault();
         toggleFullscreen();
       }
+      if (event.key === 'i' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        setShowStats(show => !show);
+      }
+      if (event.key === 's' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        void snapshotHandlerRef.current();
+      }
+      if (event.key === 'm' && !event.ctrlKey && document.activeElement?.tagName !== 'INPUT') {
+        event.preventDefault();
+        setIsMuted(muted => !muted);
+      }
     };
 
     document.addEventListener('keydown', handleKeyPress);
@@ -142,8 +335,8 @@ export default function VideoPage() {
     );
   }
 
-  // Error state
-  if (error || agoraError) {
+  // Error state. Once joined, retryable errors keep the video up while the client keeps retrying.
+  if (error || (agoraError && !(isJoined && agoraError.retryable))) {
     return (
       <div className="w-screen h-screen bg-black flex items-center justify-center">
         <div className="text-center text-white max-w-md mx-auto p-6">
@@ -152,61 +345,159 @@ export default function VideoPage() {
               <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7 4a1 1 0 11-2 0 1 1 0 012 0zm-1-9a1 1 0 00-1 1v4a1 1 0 102 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
             </svg>
           </div>
-          <h2 className="text-xl font-semibold mb-2">Connection Error</h2>
-          <p className="text-red-400 mb-4">{error || agoraError}</p>
-          <p className="text-sm opacity-80 mb-4">
-            Required URL format:<br />
-            <code className="bg-gray-800 px-2 py-1 rounded text-xs">
-              /video?appId=YOUR_APP_ID&cert=YOUR_CERT&channel=CHANNEL_NAME&uid=USER_ID
-            </code>
-          </p>
-          <button
-            onClick={() => window.location.reload()}
-            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
-          >
-            Retry
-          </button>
+          <h2 className="text-xl font-semibold mb-2">
+            {(errorCode && INVITE_ERROR_TITLES[errorCode]) || 'Connection Error'}
+          </h2>
+          <p className="text-red-400 mb-4">{error || agoraError?.message}</p>
+          {!error && agoraError ? (
+            <p className="text-sm opacity-80 mb-4">{getErrorRemediation(agoraError)}</p>
+          ) : errorCode === 'options' ? (
+            <p className="text-sm opacity-80 mb-4">
+              Display options go after the invite, for example:<br />
+              <code className="bg-gray-800 px-2 py-1 rounded text-xs">
+                /video?invite=INVITE&amp;target=42&amp;fit=contain&amp;layout=pip
+              </code>
+            </p>
+          ) : (
+            <p className="text-sm opacity-80 mb-4">
+              Required URL format:<br />
+              <code className="bg-gray-800 px-2 py-1 rounded text-xs">
+                /video?invite=INVITE
+              </code>
+            </p>
+          )}
+          {isJoinRetryable && (
+            <p className="text-sm opacity-80 mb-4">Retrying automatically…</p>
+          )}
+          {/* A refused invite or a bad App ID won't get better by retrying */}
+          {!errorCode && !(agoraError instanceof AgoraConfigError) && (
+            <button
+              onClick={() => (inviteSession ? retryJoin() : window.location.reload())}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
+            >
+              Retry
+            </button>
+          )}
         </div>
       </div>
     );
   }
 
+  const videoUsers = remoteUsers.filter(user => user.hasVideo);
+  const mainUid = selectedUid ?? options.target ?? stickyUid;
+  const isMainPresent = videoUsers.some(user => user.uid === mainUid);
+  // The user filling the screen; null shows the background or the slate
+  const displayUid = isMainPresent
+    ? mainUid
+    : options.onLeave === 'next' ? videoUsers[0]?.uid ?? null : null;
+  const pipUid = options.layout === 'pip'
+    ? videoUsers.find(user => user.uid !== displayUid)?.uid ?? null
+    : null;
+  // The grid shows everyone, main user first
+  const gridUsers = [
+    ...videoUsers.filter(user => user.uid === mainUid),
+    ...videoUsers.filter(user => user.uid !== mainUid)
+  ];
+  const { columns, rows } = getGridDimensions(gridUsers.length);
+  const showFallback = options.layout === 'grid' ? videoUsers.length === 0 : displayUid === null;
+
+  // Every video user keeps a mounted container so their player survives layout changes
+  const getTileStyle = (tileUid: UID): CSSProperties => {
+    if (options.layout === 'grid') {
+      const index = gridUsers.findIndex(user => user.uid === tileUid);
+      return {
+        left: `${(index % columns) * 100 / columns}%`,
+        top: `${Math.floor(index / columns) * 100 / rows}%`,
+        width: `${100 / columns}%`,
+        height: `${100 / rows}%`
+      };
+    }
+    if (tileUid === displayUid) {
+      return { inset: 0 };
+    }
+    if (tileUid === pipUid) {
+      return { right: '1rem', bottom: '1rem', width: '25%', aspectRatio: '16 / 9', zIndex: 10 };
+    }
+    return { inset: 0, visibility: 'hidden' };
+  };
+
+  const getTileLabel = (tileUid: UID): string | null => {
+    if (options.overlay === 'uid') return String(tileUid);
+    if (options.overlay === 'name' && tileUid === mainUid) return options.name;
+    return null;
+  };
+
   // Video display (video only, no UI elements)
   return (
-    <div className="w-screen h-screen bg-black overflow-hidden">
+    <div className="w-screen h-screen overflow-hidden" style={{ backgroundColor: options.background }}>
       {/* Full viewport video area - no headers, no controls, video only */}
       <div
         ref={videoContainerRef}
-        className="w-screen h-screen"
+        className="relative w-screen h-screen"
       >
-        {remoteUsers.filter(user => user.hasVideo).length === 0 ? (
-          // Black screen when no video - no loading messages
-          <div className="w-full h-full bg-black" />
-        ) : (
-          // Show only the video content
-          <div className="w-full h-full">
-            {remoteUsers.filter(user => user.hasVideo).map((user) => (
+        {/* Shown while nobody is featured: the background colour, or the slate image */}
+        {showFallback && options.onLeave === 'slate' && options.slate && (
+          <div
+            className="absolute inset-0"
+            style={{
+              backgroundImage: `url("${options.slate}")`,
+              backgroundSize: options.fit,
+              backgroundPosition: 'center',
+              backgroundRepeat: 'no-repeat'
+            }}
+          />
+        )}
+
+        {videoUsers.map((user) => {
+          const label = getTileLabel(user.uid);
+          return (
+            <div
+              key={user.uid}
+              className="absolute overflow-hidden"
+              style={getTileStyle(user.uid)}
+            >
               <div
-                key={user.uid}
+                id={`${DEFAULT_PLAYER_ID_PREFIX}${user.uid}`}
                 className="w-full h-full"
-                style={{
-                  width: '100vw',
-                  height: '100vh'
-                }}
-              >
-                {/* Video container - no overlays, no user info */}
-                <div
-                  id={`user-${user.uid}`}
-                  className="w-full h-full bg-black"
-                  style={{
-                    width: '100%',
-                    height: '100%'
-                  }}
-                />
-              </div>
-            ))}
+              />
+              {label && (
+                <div className="absolute bottom-4 left-4 bg-black bg-opacity-60 text-white text-lg px-3 py-1 rounded">
+                  {label}
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        {/* Kiosks often load without anyone touching the page, so audio may need one click */}
+        {isAutoplayBlocked && !isMuted && <AudioUnlockOverlay onResume={resumeAudio} />}
+
+        {/* Unattended displays recover on their own; just let onlookers know */}
+        {isJoined && (connectionState !== 'connected' || agoraError) && (
+          <div className="absolute top-4 right-4 z-20 flex items-center gap-2 bg-black bg-opacity-60 text-white text-sm px-3 py-1 rounded">
+            <div className="w-3 h-3 border-2 border-yellow-400 border-t-transparent rounded-full animate-spin" />
+            {rejoin?.status === 'scheduled'
+              ? `Reconnecting in ${Math.round((rejoin.nextRetryMs || 0) / 1000)}s…`
+              : 'Reconnecting…'
+            }
           </div>
         )}
+
+        {/* Snapshot gallery, opened by taking a snapshot with the S key */}
+        {showSnapshots && (
+          <SnapshotGallery
+            snapshots={snapshots}
+            onDownload={downloadSnapshot}
+            onClear={clearSnapshots}
+            onClose={() => setShowSnapshots(false)}
+            error={snapshotError}
+          />
+        )}
+
+        {/* Stats overlay, toggled with the I key */}
+        {showStats && (
+          <StatsOverlay history={statsHistory} onClose={() => setShowStats(false)} />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,27 @@
+'use client';
+
+interface AudioUnlockOverlayProps {
+  // Must resume playback synchronously; the click is what lifts the browser's block
+  onResume: () => void;
+  compact?: boolean;
+}
+
+/**
+ * Covers the video while the browser blocks autoplay. One click anywhere on it resumes every track.
+ */
+export default function AudioUnlockOverlay({ onResume, compact = false }: AudioUnlockOverlayProps) {
+  return (
+    <button
+      onClick={(event) => {
+        event.stopPropagation();
+        onResume();
+      }}
+      onDoubleClick={(event) => event.stopPropagation()}
+      className="absolute inset-0 z-30 flex items-center justify-center bg-black bg-opacity-50 text-white cursor-pointer"
+    >
+      <span className={`bg-gray-900 bg-opacity-90 rounded-lg ${compact ? 'px-3 py-1 text-sm' : 'px-6 py-3 text-lg font-semibold'}`}>
+        🔇 Click to enable audio
+      </span>
+    </button>
+  );
+}
@@ -0,0 +1,98 @@
+'use client';
+
+import type { IAgoraRTCRemoteUser, UID } from 'agora-rtc-sdk-ng';
+import { DEFAULT_REMOTE_USER_AUDIO, RemoteUserAudio } from '@/lib/agora-config';
+
+interface AudioUserListProps {
+  // Users without video; the gallery only has tiles for the rest
+  users: IAgoraRTCRemoteUser[];
+  // 0-100 per uid, keyed by String(uid)
+  audioLevels?: Record<string, number>;
+  activeSpeakerUid?: UID | null;
+  // Per-user volume and mute, keyed by String(uid)
+  userAudio: Record<string, RemoteUserAudio>;
+  onUserAudioChange: (uid: UID, settings: Partial<RemoteUserAudio>) => void;
+}
+
+export function AudioLevelMeter({ level, compact }: { level: number; compact: boolean }) {
+  return (
+    <div
+      className={`bg-gray-700 rounded overflow-hidden ${compact ? 'h-1 w-12 mt-1' : 'h-1.5 w-24 mt-2'}`}
+      title={`Audio level: ${Math.round(level)}`}
+    >
+      <div
+        className={`h-full transition-[width] duration-500 ease-out ${level >= 60 ? 'bg-green-400' : 'bg-green-600'}`}
+        style={{ width: `${Math.min(100, Math.max(0, level))}%` }}
+      />
+    </div>
+  );
+}
+
+export function UserAudioControls({
+  settings,
+  onChange
+}: {
+  settings: RemoteUserAudio;
+  onChange: (settings: Partial<RemoteUserAudio>) => void;
+}) {
+  // Keep clicks on the controls from pinning the tile or toggling fullscreen
+  return (
+    <div
+      className="flex items-center gap-2 mt-2"
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <button
+        onClick={() => onChange({ muted: !settings.muted })}
+        className="text-sm"
+        title={settings.muted ? 'Unmute this user' : 'Mute this user'}
+      >
+        {settings.muted ? '🔇' : '🔈'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={100}
+        value={settings.volume}
+        disabled={settings.muted}
+        onChange={(event) => onChange({ volume: Number(event.target.value) })}
+        className="w-24 accent-green-500 disabled:opacity-50"
+        title={`Volume: ${settings.volume}`}
+      />
+    </div>
+  );
+}
+
+/**
+ * Volume and mute for remote users who only send audio, so they can be adjusted like the ones with a tile
+ */
+export default function AudioUserList({
+  users,
+  audioLevels = {},
+  activeSpeakerUid = null,
+  userAudio,
+  onUserAudioChange
+}: AudioUserListProps) {
+  if (users.length === 0) return null;
+
+  return (
+    <div
+      className="absolute bottom-20 left-4 z-20 max-h-64 overflow-y-auto bg-black bg-opacity-75 text-white rounded-lg p-3 space-y-3"
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <div className="text-xs text-gray-400">🎙️ Audio only</div>
+      {users.map(user => (
+        <div key={user.uid}>
+          <div className="text-sm">
+            {user.uid === activeSpeakerUid && '🗣️ '}User: {user.uid}
+          </div>
+          <AudioLevelMeter level={audioLevels[String(user.uid)] ?? 0} compact={false} />
+          <UserAudioControls
+            settings={userAudio[String(user.uid)] ?? DEFAULT_REMOTE_USER_AUDIO}
+            onChange={(settings) => onUserAudioChange(user.uid, settings)}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import type { ChatLogEntry } from '@/hooks/useAgoraChat';
+import { MAX_CHAT_TEXT_LENGTH, ChatMessageKind } from '@/lib/agora-chat';
+
+interface ChatPanelProps {
+  messages: ChatLogEntry[];
+  onSend: (text: string, kind?: ChatMessageKind) => Promise<void>;
+  error?: string | null;
+  onClose?: () => void;
+  className?: string;
+}
+
+const REACTIONS = ['👍', '👏', '❤️', '😂'];
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+/**
+ * Channel chat with a message list, quick reactions and an input box
+ */
+export default function ChatPanel({ messages, onSend, error = null, onClose, className = '' }: ChatPanelProps) {
+  const [draft, setDraft] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (listRef.current) {
+      listRef.current.scrollTop = listRef.current.scrollHeight;
+    }
+  }, [messages]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!draft.trim() || isSending) return;
+
+    setIsSending(true);
+    try {
+      await onSend(draft);
+      setDraft('');
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <div
+      className={`flex flex-col bg-black bg-opacity-80 text-white text-sm rounded-lg ${className}`}
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <div className="flex justify-between items-center px-3 py-2 border-b border-gray-700">
+        <span className="font-semibold">Chat</span>
+        {onClose && (
+          <button onClick={onClose} className="opacity-70 hover:opacity-100" title="Close (C)">
+            ✕
+          </button>
+        )}
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto px-3 py-2 space-y-2">
+        {messages.length === 0 && <p className="opacity-70">No messages yet</p>}
+        {messages.map(message => (
+          <div key={`${message.uid}-${message.id}`} className={message.isLocal ? 'text-right' : ''}>
+            <p className="text-xs opacity-60">
+              {message.isLocal ? 'You' : `User ${message.uid}`} · {formatTime(message.timestamp)}
+            </p>
+            {message.kind === 'reaction' ? (
+              <p className="text-2xl">{message.text}</p>
+            ) : (
+              <p
+                className={`inline-block px-2 py-1 rounded whitespace-pre-wrap break-words text-left ${
+                  message.isLocal ? 'bg-blue-600' : 'bg-gray-700'
+                }`}
+              >
+                {message.text}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {error && <p className="px-3 py-1 text-xs text-red-400">{error}</p>}
+
+      <div className="flex gap-1 px-3 pt-2">
+        {REACTIONS.map(reaction => (
+          <button
+            key={reaction}
+            onClick={() => onSend(reaction, 'reaction')}
+            className="px-2 py-1 rounded hover:bg-gray-700"
+            title={`Send ${reaction}`}
+          >
+            {reaction}
+          </button>
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="flex gap-2 p-3">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          maxLength={MAX_CHAT_TEXT_LENGTH}
+          className="flex-1 px-2 py-1 rounded bg-gray-800 border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Say something…"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isSending}
+          className="px-3 py-1 bg-blue-600 rounded hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+        >
+          Send
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+'use client';
+
+import type { VideoEncoderProfile } from '@/lib/agora-config';
+
+// SDK encoder presets offered in the picker
+const VIDEO_PROFILE_OPTIONS: { value: string; label: string }[] = [
+  { value: '360p_7', label: '360p · 15 fps · 400 kbps' },
+  { value: '480p_1', label: '480p · 15 fps · 500 kbps' },
+  { value: '720p_1', label: '720p · 15 fps · 1130 kbps' },
+  { value: '720p_2', label: '720p · 30 fps · 2000 kbps' },
+  { value: '1080p_1', label: '1080p · 15 fps · 2080 kbps' },
+  { value: '1080p_2', label: '1080p · 30 fps · 3000 kbps' }
+];
+
+interface DevicePickerProps {
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  cameraId: string;
+  microphoneId: string;
+  videoProfile: VideoEncoderProfile;
+  onCameraChange: (deviceId: string) => void;
+  onMicrophoneChange: (deviceId: string) => void;
+  onVideoProfileChange: (profile: VideoEncoderProfile) => void;
+  disabled?: boolean;
+}
+
+export default function DevicePicker({
+  cameras,
+  microphones,
+  cameraId,
+  microphoneId,
+  videoProfile,
+  onCameraChange,
+  onMicrophoneChange,
+  onVideoProfileChange,
+  disabled = false
+}: DevicePickerProps) {
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-700 dark:text-white disabled:opacity-60';
+  const labelClassName = 'block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2';
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className={labelClassName}>Camera</label>
+        <select
+          value={cameraId}
+          onChange={(e) => onCameraChange(e.target.value)}
+          disabled={disabled || cameras.length === 0}
+          className={selectClassName}
+        >
+          {cameras.length === 0 && <option value="">Start the preview to list cameras</option>}
+          {cameras.map((camera, index) => (
+            <option key={camera.deviceId} value={camera.deviceId}>
+              {camera.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Microphone</label>
+        <select
+          value={microphoneId}
+          onChange={(e) => onMicrophoneChange(e.target.value)}
+          disabled={disabled || microphones.length === 0}
+          className={selectClassName}
+        >
+          {microphones.length === 0 && <option value="">Start the preview to list microphones</option>}
+          {microphones.map((microphone, index) => (
+            <option key={microphone.deviceId} value={microphone.deviceId}>
+              {microphone.label || `Microphone ${index + 1}`}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className={labelClassName}>Video Quality</label>
+        <select
+          value={typeof videoProfile === 'string' ? videoProfile : ''}
+          onChange={(e) => onVideoProfileChange(e.target.value)}
+          disabled={disabled}
+          className={selectClassName}
+        >
+          {typeof videoProfile !== 'string' && <option value="">Custom</option>}
+          {VIDEO_PROFILE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+'use client';
+
+import type { AgoraClientError, AgoraClientErrorCode } from '@/lib/agora-errors';
+
+const REMEDIATION: Record<AgoraClientErrorCode, string> = {
+  'invalid-app-id': 'Check the App ID in Agora Console. It is a 32-character hexadecimal string.',
+  'invalid-channel': 'Enter a channel name.',
+  'invalid-uid': 'Use a number up to 4294967295 or an account name of up to 255 characters, or leave the uid empty.',
+  'invalid-token': 'Generate a new token for this App ID, channel and uid.',
+  'token-expired': 'Generate a new token and join again.',
+  'token-unavailable': 'Check that an App Certificate is configured on the server for this App ID, then retry.',
+  'network': 'Check your network connection and retry. Firewalls or VPNs can block Agora\'s servers.',
+  'uid-conflict': 'Someone in the channel already uses this uid. Pick another one or leave it empty.',
+  'aborted': 'The request was interrupted. Try again.',
+  'permission-denied': 'Allow camera and microphone access in your browser\'s site settings, then try again.',
+  'device-not-found': 'Connect a camera or microphone, or pick another device.',
+  'device-unavailable': 'Close other apps that are using the camera or microphone, then retry.',
+  'not-supported': 'Use a current version of Chrome, Edge, Firefox or Safari, over HTTPS.',
+  'unknown': 'Try again. If it keeps failing, the browser console has details.'
+};
+
+/**
+ * What the user can do about an error, for pages that render errors their own way
+ */
+export function getErrorRemediation(error: AgoraClientError): string {
+  return REMEDIATION[error.code];
+}
+
+interface ErrorNoticeProps {
+  error: AgoraClientError;
+  // Offered only for retryable errors
+  onRetry?: () => void;
+}
+
+export default function ErrorNotice({ error, onRetry }: ErrorNoticeProps) {
+  return (
+    <div className="p-4 bg-red-100 border border-red-400 text-red-700 rounded-md">
+      <p className="font-medium">Error:</p>
+      <p className="text-sm">{error.message}</p>
+      <p className="text-sm mt-2">{getErrorRemediation(error)}</p>
+      {onRetry && error.retryable && (
+        <button
+          onClick={onRetry}
+          className="mt-3 px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          {error.code === 'token-expired' ? 'Get a new token' : 'Retry'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { UID } from 'agora-rtc-sdk-ng';
+import { ConnectionStatus, useAgoraAudience } from '@/hooks/useAgoraAudience';
+import VideoGallery from '@/components/VideoGallery';
+import AudioUnlockOverlay from '@/components/AudioUnlockOverlay';
+import type { AgoraCodec, AgoraMode } from '@/lib/agora-config';
+import { createLocalRouteTokenProvider } from '@/lib/token-providers';
+
+// Every channel on the wall signs its tokens through this app's token route
+const tokenProvider = createLocalRouteTokenProvider();
+
+const STATUS_STYLES: Record<ConnectionStatus, { label: string; className: string }> = {
+  connected: { label: 'Connected', className: 'bg-green-600' },
+  connecting: { label: 'Connecting', className: 'bg-yellow-600' },
+  reconnecting: { label: 'Reconnecting', className: 'bg-yellow-600' },
+  disconnected: { label: 'Disconnected', className: 'bg-gray-600' }
+};
+
+interface MonitorChannelProps {
+  appId: string;
+  channel: string;
+  // Unique per tile group, so equal uids in different channels get their own players
+  playerIdPrefix: string;
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  onRemove: () => void;
+}
+
+/**
+ * One channel on the monitoring wall: joins as audience on mount and leaves on unmount.
+ * Audio stays off until the operator listens in.
+ */
+export default function MonitorChannel({ appId, channel, playerIdPrefix, mode, codec, onRemove }: MonitorChannelProps) {
+  const [isListening, setIsListening] = useState(false);
+  const [pinnedUid, setPinnedUid] = useState<UID | null>(null);
+  const hasJoinStartedRef = useRef(false);
+
+  const {
+    isJoined,
+    isJoining,
+    remoteUsers,
+    error,
+    connectionState,
+    rejoin,
+    audioLevels,
+    activeSpeakerUid,
+    isAutoplayBlocked,
+    resumeAudio,
+    joinChannel
+  } = useAgoraAudience({
+    appId,
+    channel,
+    mode,
+    codec,
+    tokenProvider,
+    playerIdPrefix,
+    playRemoteAudio: isListening
+  });
+
+  useEffect(() => {
+    if (hasJoinStartedRef.current) return;
+    hasJoinStartedRef.current = true;
+    void joinChannel();
+  }, [joinChannel]);
+
+  const videoUsers = remoteUsers.filter(user => user.hasVideo);
+  const status = error && !isJoined
+    ? { label: 'Failed', className: 'bg-red-600' }
+    : isJoining
+      ? STATUS_STYLES.connecting
+      : STATUS_STYLES[connectionState];
+
+  return (
+    <div className="flex flex-col min-h-0 bg-gray-900 rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 bg-gray-800 text-white text-sm">
+        <span className="font-semibold truncate" title={channel}>{channel}</span>
+        <span className={`text-xs px-2 py-0.5 rounded ${status.className}`}>
+          {status.label}
+          {rejoin?.status === 'scheduled' && ` (retry in ${Math.round((rejoin.nextRetryMs || 0) / 1000)}s)`}
+        </span>
+        <span className="text-xs opacity-70">
+          {remoteUsers.length} {remoteUsers.length === 1 ? 'user' : 'users'}
+        </span>
+        <div className="ml-auto flex gap-2">
+          <button
+            onClick={() => setIsListening(!isListening)}
+            className={`px-2 py-0.5 rounded ${isListening ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-700 hover:bg-gray-600'}`}
+            title={isListening ? 'Mute this channel' : 'Listen to this channel'}
+          >
+            {isListening ? '🔊' : '🔈'}
+          </button>
+          <button
+            onClick={onRemove}
+            className="px-2 py-0.5 rounded bg-gray-700 hover:bg-red-600"
+            title="Remove channel"
+          >
+            ✕
+          </button>
+        </div>
+      </div>
+
+      <div className="relative flex-1 min-h-0">
+        {error && !isJoined ? (
+          <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 p-4 text-center text-white">
+            <p className="text-sm text-red-400">{error.message}</p>
+            {error.retryable && (
+              <button
+                onClick={() => void joinChannel()}
+                className="px-3 py-1 text-sm bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                Retry
+              </button>
+            )}
+          </div>
+        ) : videoUsers.length === 0 ? (
+          <div className="absolute inset-0 flex items-center justify-center text-sm text-white opacity-60">
+            {isJoined ? 'No video in this channel' : 'Joining…'}
+          </div>
+        ) : (
+          // isFullscreen gives the compact, edge-to-edge tiles a wall needs
+          <VideoGallery
+            users={videoUsers}
+            layout="grid"
+            pinnedUid={pinnedUid}
+            onTogglePin={(uid) => setPinnedUid(pinnedUid === uid ? null : uid)}
+            isFullscreen
+            audioLevels={audioLevels}
+            activeSpeakerUid={activeSpeakerUid}
+            playerIdPrefix={playerIdPrefix}
+          />
+        )}
+
+        {isAutoplayBlocked && isListening && <AudioUnlockOverlay onResume={resumeAudio} compact />}
+      </div>
+    </div>
+  );
+}
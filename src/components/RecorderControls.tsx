@@ -0,0 +1,109 @@
+'use client';
+
+import { useState } from 'react';
+import type { IAgoraRTCRemoteUser } from 'agora-rtc-sdk-ng';
+import type { RecordingStats, RecordingTarget } from '@/lib/stream-recorder';
+
+interface RecorderControlsProps {
+  users: IAgoraRTCRemoteUser[];
+  recording: RecordingStats;
+  error?: string | null;
+  onStart: (target: RecordingTarget) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onTargetChange: (target: RecordingTarget) => void;
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// 'grid' or a uid as a string, for the select element
+function toTarget(value: string, users: IAgoraRTCRemoteUser[]): RecordingTarget {
+  if (value === 'grid') return { kind: 'grid' };
+  const user = users.find(candidate => String(candidate.uid) === value);
+  return { kind: 'user', uid: user?.uid ?? value };
+}
+
+/**
+ * Source picker and start/pause/stop buttons for recording the watched stream
+ */
+export default function RecorderControls({
+  users,
+  recording,
+  error = null,
+  onStart,
+  onPause,
+  onResume,
+  onStop,
+  onTargetChange
+}: RecorderControlsProps) {
+  const [targetValue, setTargetValue] = useState('grid');
+  const isActive = recording.state !== 'inactive';
+
+  return (
+    <div
+      className="absolute bottom-4 left-4 z-30 flex items-center gap-2 bg-black bg-opacity-70 text-white text-sm rounded-lg px-3 py-2"
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <select
+        value={targetValue}
+        onChange={(e) => {
+          setTargetValue(e.target.value);
+          onTargetChange(toTarget(e.target.value, users));
+        }}
+        className="bg-gray-800 border border-gray-600 rounded px-2 py-1"
+        title="What to record"
+      >
+        <option value="grid">All videos</option>
+        {users.map(user => (
+          <option key={user.uid} value={String(user.uid)}>
+            User {user.uid}
+          </option>
+        ))}
+      </select>
+
+      {!isActive ? (
+        <button
+          onClick={() => onStart(toTarget(targetValue, users))}
+          className="px-3 py-1 bg-red-600 rounded hover:bg-red-700"
+          title="Start recording"
+        >
+          ⏺ Record
+        </button>
+      ) : (
+        <>
+          <span className="flex items-center gap-1 font-mono">
+            <span className={`w-2 h-2 rounded-full bg-red-500 ${recording.state === 'recording' ? 'animate-pulse' : ''}`} />
+            {formatDuration(recording.durationMs)} · {formatSize(recording.sizeBytes)}
+          </span>
+          <button
+            onClick={recording.state === 'paused' ? onResume : onPause}
+            className="px-3 py-1 bg-gray-700 rounded hover:bg-gray-600"
+          >
+            {recording.state === 'paused' ? '▶ Resume' : '⏸ Pause'}
+          </button>
+          <button
+            onClick={onStop}
+            className="px-3 py-1 bg-red-600 rounded hover:bg-red-700"
+            title="Stop and download"
+          >
+            ⏹ Stop
+          </button>
+        </>
+      )}
+
+      {error && <span className="text-xs text-red-400">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+'use client';
+
+import type { Snapshot } from '@/hooks/useSnapshots';
+
+interface SnapshotGalleryProps {
+  snapshots: Snapshot[];
+  onDownload: (snapshot: Snapshot) => void;
+  onClear: () => void;
+  onClose: () => void;
+  error?: string | null;
+}
+
+/**
+ * Thumbnails of the snapshots taken in this session; click one to download it again
+ */
+export default function SnapshotGallery({ snapshots, onDownload, onClear, onClose, error = null }: SnapshotGalleryProps) {
+  return (
+    <div
+      className="absolute top-24 left-4 z-30 w-72 max-h-[60vh] overflow-y-auto bg-black bg-opacity-80 text-white text-xs rounded-lg p-3"
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-semibold text-sm">Snapshots ({snapshots.length})</span>
+        <div className="flex gap-3">
+          {snapshots.length > 0 && (
+            <button onClick={onClear} className="opacity-70 hover:opacity-100">
+              Clear
+            </button>
+          )}
+          <button onClick={onClose} className="opacity-70 hover:opacity-100" title="Close">
+            ✕
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-red-400 mb-2">{error}</p>}
+      {snapshots.length === 0 && <p className="opacity-70">Press S to take a snapshot</p>}
+
+      <div className="grid grid-cols-2 gap-2">
+        {snapshots.map(snapshot => (
+          <button
+            key={snapshot.id}
+            onClick={() => onDownload(snapshot)}
+            className="text-left hover:opacity-80"
+            title={`Download ${snapshot.filename}`}
+          >
+            {/* eslint-disable-next-line @next/next/no-img-element -- object URLs cannot go through next/image */}
+            <img src={snapshot.url} alt={`Snapshot of user ${snapshot.uid}`} className="w-full rounded" />
+            <p className="mt-1 opacity-70">
+              User {snapshot.uid} · {new Date(snapshot.takenAt).toLocaleTimeString()}
+            </p>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import type { MediaStatsSample } from '@/lib/agora-config';
+
+interface StatsOverlayProps {
+  history: MediaStatsSample[];
+  onClose: () => void;
+  hotkey?: string;
+}
+
+// Labels for the SDK's 0-6 network quality scale
+const NETWORK_QUALITY_LABELS = ['Unknown', 'Excellent', 'Good', 'Poor', 'Bad', 'Very bad', 'Down'];
+
+function getQualityColor(quality: number): string {
+  if (quality === 0) return 'text-gray-400';
+  if (quality <= 2) return 'text-green-400';
+  if (quality <= 3) return 'text-yellow-400';
+  return 'text-red-400';
+}
+
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+
+  const width = 120;
+  const height = 24;
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * width;
+      const y = height - (value / max) * height;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="mt-1">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" className="text-blue-400" />
+    </svg>
+  );
+}
+
+/**
+ * Latest network quality and per-user receive statistics, with a bitrate sparkline per user
+ */
+export default function StatsOverlay({ history, onClose, hotkey = 'i' }: StatsOverlayProps) {
+  const latest = history[history.length - 1];
+
+  return (
+    <div
+      className="absolute bottom-4 right-4 z-30 w-80 max-h-[70vh] overflow-y-auto bg-black bg-opacity-80 text-white text-xs font-mono rounded-lg p-3"
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+    >
+      <div className="flex justify-between items-center mb-2">
+        <span className="font-semibold text-sm">Stats</span>
+        <button onClick={onClose} className="opacity-70 hover:opacity-100" title={`Close (${hotkey.toUpperCase()})`}>
+          ✕
+        </button>
+      </div>
+
+      {!latest ? (
+        <p className="opacity-70">Collecting…</p>
+      ) : (
+        <>
+          <div className="mb-2">
+            {latest.networkQuality ? (
+              <p>
+                Network ↑{' '}
+                <span className={getQualityColor(latest.networkQuality.uplinkNetworkQuality)}>
+                  {NETWORK_QUALITY_LABELS[latest.networkQuality.uplinkNetworkQuality]}
+                </span>
+                {' '}↓{' '}
+                <span className={getQualityColor(latest.networkQuality.downlinkNetworkQuality)}>
+                  {NETWORK_QUALITY_LABELS[latest.networkQuality.downlinkNetworkQuality]}
+                </span>
+              </p>
+            ) : (
+              <p className="opacity-70">Network quality not reported yet</p>
+            )}
+          </div>
+
+          {latest.users.length === 0 && <p className="opacity-70">No remote users</p>}
+
+          {latest.users.map(user => {
+            const bitrateHistory = history.map(sample => {
+              const entry = sample.users.find(candidate => candidate.uid === user.uid);
+              return (entry?.video?.bitrateKbps ?? 0) + (entry?.audio?.bitrateKbps ?? 0);
+            });
+
+            return (
+              <div key={user.uid} className="border-t border-gray-700 pt-2 mt-2">
+                <p className="font-semibold">User {user.uid}</p>
+                {user.video && (
+                  <p>
+                    Video {user.video.width}×{user.video.height} @ {Math.round(user.video.frameRate)}fps
+                    {' · '}{Math.round(user.video.bitrateKbps)} kbps
+                    {' · '}loss {user.video.packetLossRate.toFixed(1)}%
+                    {' · '}e2e {Math.round(user.video.end2EndDelay)} ms
+                  </p>
+                )}
+                {user.audio && (
+                  <p>
+                    Audio {Math.round(user.audio.bitrateKbps)} kbps
+                    {' · '}loss {user.audio.packetLossRate.toFixed(1)}%
+                    {' · '}e2e {Math.round(user.audio.end2EndDelay)} ms
+                  </p>
+                )}
+                <Sparkline values={bitrateHistory} />
+              </div>
+            );
+          })}
+        </>
+      )}
+    </div>
+  );
+}
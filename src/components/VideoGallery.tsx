@@ -0,0 +1,163 @@
+'use client';
+
+import type { CSSProperties } from 'react';
+import type { IAgoraRTCRemoteUser, UID } from 'agora-rtc-sdk-ng';
+import { DEFAULT_PLAYER_ID_PREFIX, DEFAULT_REMOTE_USER_AUDIO, RemoteUserAudio } from '@/lib/agora-config';
+import { AudioLevelMeter, UserAudioControls } from '@/components/AudioUserList';
+import { getGridDimensions } from '@/lib/grid-layout';
+
+export type GalleryLayout = 'grid' | 'spotlight';
+
+interface VideoGalleryProps {
+  users: IAgoraRTCRemoteUser[];
+  layout: GalleryLayout;
+  pinnedUid: UID | null;
+  onTogglePin: (uid: UID) => void;
+  isFullscreen?: boolean;
+  // 0-100 per uid, keyed by String(uid)
+  audioLevels?: Record<string, number>;
+  activeSpeakerUid?: UID | null;
+  // Spotlights this user when nobody is pinned (e.g. the active speaker)
+  autoFocusUid?: UID | null;
+  // Must match the client's AgoraConfig.playerIdPrefix
+  playerIdPrefix?: string;
+  // Per-user volume and mute, keyed by String(uid); controls are shown when onUserAudioChange is set
+  userAudio?: Record<string, RemoteUserAudio>;
+  onUserAudioChange?: (uid: UID, settings: Partial<RemoteUserAudio>) => void;
+}
+
+/**
+ * The user shown large in the spotlight layout: the pinned user, then the
+ * auto-focused one, then whoever is first in the list
+ */
+export function getFocusedUid(
+  users: IAgoraRTCRemoteUser[],
+  pinnedUid: UID | null,
+  autoFocusUid: UID | null = null
+): UID | null {
+  const isPresent = (uid: UID | null) => uid !== null && users.some(user => user.uid === uid);
+  if (isPresent(pinnedUid)) return pinnedUid;
+  if (isPresent(autoFocusUid)) return autoFocusUid;
+  return users[0]?.uid ?? null;
+}
+
+/**
+ * Responsive video gallery. Every tile stays a child of the same grid element and
+ * only its placement changes, so the SDK's video elements survive layout switches.
+ */
+export default function VideoGallery({
+  users,
+  layout,
+  pinnedUid,
+  onTogglePin,
+  isFullscreen = false,
+  audioLevels = {},
+  activeSpeakerUid = null,
+  autoFocusUid = null,
+  playerIdPrefix = DEFAULT_PLAYER_ID_PREFIX,
+  userAudio = {},
+  onUserAudioChange
+}: VideoGalleryProps) {
+  const focusedUid = getFocusedUid(users, pinnedUid, autoFocusUid);
+  const isSpotlight = layout === 'spotlight' && users.length > 1;
+
+  let containerStyle: CSSProperties;
+  if (isSpotlight) {
+    containerStyle = {
+      gridTemplateColumns: `repeat(${users.length - 1}, minmax(0, 1fr))`,
+      gridTemplateRows: 'minmax(0, 4fr) minmax(0, 1fr)'
+    };
+  } else {
+    const { columns, rows } = getGridDimensions(users.length);
+    containerStyle = {
+      gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`,
+      gridTemplateRows: `repeat(${rows}, minmax(0, 1fr))`
+    };
+  }
+
+  const getTileStyle = (user: IAgoraRTCRemoteUser, index: number): CSSProperties => {
+    const isFocused = user.uid === focusedUid;
+
+    if (isSpotlight) {
+      return isFocused
+        ? { gridColumn: '1 / -1', gridRow: '1', order: 0 }
+        : { gridRow: '2', order: index + 1 };
+    }
+
+    // Keep the pinned user first in the grid
+    return { order: isFocused && pinnedUid !== null ? 0 : index + 1 };
+  };
+
+  return (
+    <div
+      className={`grid w-full h-full transition-[grid-template-columns,grid-template-rows] duration-300 ease-out ${
+        isFullscreen ? 'gap-1 p-0' : 'gap-2 p-4 pt-24'
+      }`}
+      style={containerStyle}
+    >
+      {users.map((user, index) => {
+        const isPinned = user.uid === pinnedUid;
+        const isThumbnail = isSpotlight && user.uid !== focusedUid;
+        const isSpeaking = user.uid === activeSpeakerUid;
+
+        return (
+          <div
+            key={user.uid}
+            className={`video-tile-enter relative bg-gray-900 overflow-hidden transition-shadow duration-300 ${
+              isFullscreen ? '' : 'rounded-lg'
+            } ${isPinned ? 'ring-2 ring-yellow-400' : isSpeaking ? 'ring-4 ring-green-400' : ''}`}
+            style={getTileStyle(user, index)}
+            onClick={(event) => {
+              event.stopPropagation();
+              onTogglePin(user.uid);
+            }}
+            title={isPinned ? 'Click to unpin' : 'Click to pin'}
+          >
+            {/* User info overlay */}
+            <div className={`absolute z-10 ${isThumbnail ? 'top-1 left-1' : 'top-4 left-4'}`}>
+              <div className="bg-black bg-opacity-50 text-white px-3 py-1 rounded">
+                <p className={`font-medium ${isThumbnail ? 'text-xs' : 'text-sm'}`}>
+                  {isPinned && '📌 '}{isSpeaking && '🗣️ '}User: {user.uid}
+                </p>
+                {!isThumbnail && (
+                  <div className="flex gap-2 mt-1">
+                    {user.hasVideo && (
+                      <span className="text-xs bg-blue-600 px-2 py-1 rounded">
+                        📹 Video
+                      </span>
+                    )}
+                    {user.hasAudio && (
+                      <span className="text-xs bg-green-600 px-2 py-1 rounded">
+                        🎵 Audio
+                      </span>
+                    )}
+                  </div>
+                )}
+                {user.hasAudio && (
+                  <AudioLevelMeter level={audioLevels[String(user.uid)] ?? 0} compact={isThumbnail} />
+                )}
+                {user.hasAudio && !isThumbnail && onUserAudioChange && (
+                  <UserAudioControls
+                    settings={userAudio[String(user.uid)] ?? DEFAULT_REMOTE_USER_AUDIO}
+                    onChange={(settings) => onUserAudioChange(user.uid, settings)}
+                  />
+                )}
+              </div>
+            </div>
+
+            {/* Video container */}
+            <div
+              id={`${playerIdPrefix}${user.uid}`}
+              className="w-full h-full bg-black"
+              style={{
+                width: '100%',
+                height: '100%',
+                position: 'relative'
+              }}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,37 +1,193 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { IAgoraRTCRemoteUser } from 'agora-rtc-sdk-ng';
-import { AgoraClient, AgoraConfig } from '@/lib/agora-config';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { ConnectionState, IAgoraRTCRemoteUser, UID, VideoPlayerConfig } from 'agora-rtc-sdk-ng';
+import {
+  AgoraClient,
+  AgoraCodec,
+  AgoraConfig,
+  AgoraMode,
+  AudienceLatency,
+  AudioLevel,
+  DEFAULT_REMOTE_USER_AUDIO,
+  MediaStatsSample,
+  RejoinEvent,
+  RemoteUserAudio,
+  TokenRenewalEvent
+} from '@/lib/agora-config';
+import type { TokenProvider } from '@/lib/token-providers';
+import { AgoraClientError, createAgoraClientError, toAgoraClientError } from '@/lib/agora-errors';
+import { Logger, defaultLogger } from '@/lib/logger';
+import { collectDiagnostics, downloadDiagnosticsBundle } from '@/lib/diagnostics';
+import { ChatLogEntry, useAgoraChat } from './useAgoraChat';
+import type { ChatMessageKind } from '@/lib/agora-chat';
+import type { SnapshotOptions } from '@/lib/snapshot';
+
+// Volume reports arrive every two seconds; these keep the active speaker from flickering
+const ACTIVE_SPEAKER_MIN_LEVEL = 20;
+const ACTIVE_SPEAKER_HOLD_MS = 2000;
+const ACTIVE_SPEAKER_SILENCE_MS = 6000;
+
+const STATS_SAMPLE_INTERVAL_MS = 2000;
+const STATS_HISTORY_LENGTH = 30;
+
+export type ConnectionStatus = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+function toConnectionStatus(state: ConnectionState): ConnectionStatus {
+  switch (state) {
+    case 'CONNECTING':
+      return 'connecting';
+    case 'CONNECTED':
+      return 'connected';
+    case 'RECONNECTING':
+      return 'reconnecting';
+    default:
+      return 'disconnected';
+  }
+}
 
 export interface UseAgoraAudienceProps {
   appId: string;
-  appCertificate?: string;
   channel: string;
   uid?: string | number;
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  audienceLatency?: AudienceLatency;
+  // Defaults to this app's /api/agora/token route; must be stable across renders
+  tokenProvider?: TokenProvider;
+  // Defaults to the shared defaultLogger, which is also what diagnostics are collected from
+  logger?: Logger;
+  // Needed when several channels are shown on one page; see AgoraConfig.playerIdPrefix
+  playerIdPrefix?: string;
+  // Master mute; can be toggled while joined
+  playRemoteAudio?: boolean;
+  // 0-100; can be changed while joined
+  remoteAudioVolume?: number;
+  // Applied as remote video starts playing
+  remoteVideoPlayerConfig?: VideoPlayerConfig;
+  // Sample media statistics while true (e.g. while a stats overlay is shown)
+  collectStats?: boolean;
+  // Never give up rejoining or renewing the token; see AgoraConfig.retryIndefinitely
+  retryIndefinitely?: boolean;
 }
 
 export interface UseAgoraAudienceReturn {
   isJoined: boolean;
   isJoining: boolean;
+  // The uid actually in use, which Agora assigns when none was configured
+  joinedUid: UID | null;
   remoteUsers: IAgoraRTCRemoteUser[];
-  error: string | null;
+  error: AgoraClientError | null;
+  tokenRenewal: TokenRenewalEvent | null;
+  connectionState: ConnectionStatus;
+  // SDK disconnect reason (e.g. NETWORK_ERROR) for the latest state change, if any
+  connectionReason: string | null;
+  // Progress of the automatic rejoin after an unexpected disconnect
+  rejoin: RejoinEvent | null;
+  // Latest 0-100 audio level per uid, keyed by String(uid)
+  audioLevels: Record<string, number>;
+  activeSpeakerUid: UID | null;
+  // High stream for this user, low stream for the rest; null for high everywhere
+  setFocusedUid: (uid: UID | null) => void;
+  // Per-user volume and mute, keyed by String(uid); users without an entry are at the defaults
+  userAudio: Record<string, RemoteUserAudio>;
+  // Kept across leave and rejoin
+  setUserAudio: (uid: UID, settings: Partial<RemoteUserAudio>) => void;
+  // The browser blocked playback until the viewer interacts with the page
+  isAutoplayBlocked: boolean;
+  // Call from a click handler
+  resumeAudio: () => void;
+  // Oldest first, at most STATS_HISTORY_LENGTH samples
+  statsHistory: MediaStatsSample[];
+  captureSnapshot: (uid: UID, options?: SnapshotOptions) => Promise<Blob>;
+  chatMessages: ChatLogEntry[];
+  chatError: string | null;
+  sendChatMessage: (text: string, kind?: ChatMessageKind) => Promise<void>;
+  // Works before joining and after a failed join, when it's needed most
+  downloadDiagnostics: () => Promise<void>;
   joinChannel: (token?: string) => Promise<void>;
   leaveChannel: () => Promise<void>;
+  // Leaves first if still joined; for retrying once the automatic recovery has given up
+  rejoinChannel: () => Promise<void>;
   generateToken: () => Promise<string>;
 }
 
 export function useAgoraAudience({
   appId,
-  appCertificate,
   channel,
-  uid
+  uid,
+  mode,
+  codec,
+  audienceLatency,
+  tokenProvider,
+  logger = defaultLogger,
+  playerIdPrefix,
+  playRemoteAudio = true,
+  remoteAudioVolume = 100,
+  remoteVideoPlayerConfig,
+  collectStats = false,
+  retryIndefinitely = false
 }: UseAgoraAudienceProps): UseAgoraAudienceReturn {
   const [client, setClient] = useState<AgoraClient | null>(null);
   const [isJoined, setIsJoined] = useState(false);
   const [isJoining, setIsJoining] = useState(false);
+  const [joinedUid, setJoinedUid] = useState<UID | null>(null);
   const [remoteUsers, setRemoteUsers] = useState<IAgoraRTCRemoteUser[]>([]);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AgoraClientError | null>(null);
+  const [tokenRenewal, setTokenRenewal] = useState<TokenRenewalEvent | null>(null);
+  const [connectionState, setConnectionState] = useState<ConnectionStatus>('disconnected');
+  const [connectionReason, setConnectionReason] = useState<string | null>(null);
+  const [rejoin, setRejoin] = useState<RejoinEvent | null>(null);
+  const [audioLevels, setAudioLevels] = useState<Record<string, number>>({});
+  const [activeSpeakerUid, setActiveSpeakerUid] = useState<UID | null>(null);
+  const [statsHistory, setStatsHistory] = useState<MediaStatsSample[]>([]);
+  const [userAudio, setUserAudioState] = useState<Record<string, RemoteUserAudio>>({});
+  const [isAutoplayBlocked, setIsAutoplayBlocked] = useState(false);
+  const userAudioRef = useRef<Record<string, RemoteUserAudio>>({});
+  const unsubscribeRef = useRef<Array<() => void>>([]);
+  const lastClientRef = useRef<AgoraClient | null>(null);
+  const isMountedRef = useRef(true);
+  const playRemoteAudioRef = useRef(playRemoteAudio);
+  playRemoteAudioRef.current = playRemoteAudio;
+  const remoteAudioVolumeRef = useRef(remoteAudioVolume);
+  remoteAudioVolumeRef.current = remoteAudioVolume;
+  const activeSpeakerRef = useRef<{ uid: UID | null; changedAt: number; lastHeardAt: number }>({
+    uid: null,
+    changedAt: 0,
+    lastHeardAt: 0
+  });
+
+  const updateActiveSpeaker = useCallback((levels: AudioLevel[]) => {
+    const now = Date.now();
+    const current = activeSpeakerRef.current;
+    const loudest = levels.reduce<AudioLevel | null>(
+      (max, entry) => (max === null || entry.level > max.level ? entry : max),
+      null
+    );
+
+    if (loudest && loudest.level >= ACTIVE_SPEAKER_MIN_LEVEL) {
+      if (loudest.uid === current.uid) {
+        current.lastHeardAt = now;
+      } else if (current.uid === null || now - current.changedAt >= ACTIVE_SPEAKER_HOLD_MS) {
+        activeSpeakerRef.current = { uid: loudest.uid, changedAt: now, lastHeardAt: now };
+        setActiveSpeakerUid(loudest.uid);
+      }
+    } else if (current.uid !== null && now - current.lastHeardAt >= ACTIVE_SPEAKER_SILENCE_MS) {
+      activeSpeakerRef.current = { uid: null, changedAt: now, lastHeardAt: now };
+      setActiveSpeakerUid(null);
+    }
+  }, []);
+
+  const resetAudioLevels = useCallback(() => {
+    activeSpeakerRef.current = { uid: null, changedAt: 0, lastHeardAt: 0 };
+    setAudioLevels({});
+    setActiveSpeakerUid(null);
+  }, []);
+
+  const unsubscribeAll = useCallback(() => {
+    unsubscribeRef.current.forEach(unsubscribe => unsubscribe());
+    unsubscribeRef.current = [];
+  }, []);
 
   const generateToken = useCallback(async (): Promise<string> => {
     if (!appId || !channel) {
@@ -42,16 +198,19 @@ export function useAgoraAudience({
       appId,
       channel,
       uid,
-      appCertificate
+      mode,
+      codec,
+      audienceLatency,
+      tokenProvider,
+      logger
     };
 
     const tempClient = new AgoraClient(config);
     return await tempClient.generateToken('audience');
-  }, [appId, appCertificate, channel, uid]);
-
-  const joinChannel = useCallback(async (providedToken?: string) => {
-    if (isJoining || isJoined) return;
+  }, [appId, channel, uid, mode, codec, audienceLatency, tokenProvider, logger]);
 
+  // Joins without checking isJoined, so rejoinChannel can call it straight after leaving
+  const connect = useCallback(async (providedToken?: string) => {
     setIsJoining(true);
     setError(null);
 
@@ -61,81 +220,252 @@ export function useAgoraAudience({
         channel,
         token: providedToken,
         uid,
-        appCertificate
+        mode,
+        codec,
+        audienceLatency,
+        tokenProvider,
+        logger,
+        playerIdPrefix,
+        playRemoteAudio: playRemoteAudioRef.current,
+        remoteAudioVolume: remoteAudioVolumeRef.current,
+        remoteVideoPlayerConfig,
+        retryIndefinitely
       };
 
       const agoraClient = new AgoraClient(config);
-      await agoraClient.joinAsAudience();
+      lastClientRef.current = agoraClient;
+      Object.entries(userAudioRef.current).forEach(([audioUid, settings]) => {
+        agoraClient.setUserAudio(audioUid, settings);
+      });
 
-      setClient(agoraClient);
-      setIsJoined(true);
-      setRemoteUsers(agoraClient.getRemoteUsers());
-
-      // Update remote users when they change
-      const updateRemoteUsers = () => {
-        if (agoraClient.isConnected()) {
-          const users = agoraClient.getRemoteUsers();
-          console.log('🔄 Remote users updated:', users.length);
-          setRemoteUsers([...users]);
-        }
+      // The SDK mutates its user objects in place, so copy the list to trigger a render
+      const syncRemoteUsers = () => {
+        setRemoteUsers([...agoraClient.getRemoteUsers()]);
       };
 
-      // Initial update
-      updateRemoteUsers();
+      unsubscribeRef.current = [
+        agoraClient.on('user-joined', syncRemoteUsers),
+        agoraClient.on('user-published', syncRemoteUsers),
+        agoraClient.on('user-unpublished', syncRemoteUsers),
+        agoraClient.on('user-left', (user) => {
+          syncRemoteUsers();
+          setAudioLevels(levels => {
+            const next = { ...levels };
+            delete next[String(user.uid)];
+            return next;
+          });
+          if (activeSpeakerRef.current.uid === user.uid) {
+            activeSpeakerRef.current = { uid: null, changedAt: 0, lastHeardAt: 0 };
+            setActiveSpeakerUid(null);
+          }
+        }),
+        agoraClient.on('autoplay-blocked', () => setIsAutoplayBlocked(true)),
+        agoraClient.on('volume-indicator', (levels) => {
+          setAudioLevels(Object.fromEntries(levels.map(entry => [String(entry.uid), entry.level])));
+          updateActiveSpeaker(levels);
+        }),
+        agoraClient.on('connection-state-change', (curState, _prevState, reason) => {
+          syncRemoteUsers();
+          setConnectionState(toConnectionStatus(curState));
+          setConnectionReason(reason ?? null);
+        }),
+        agoraClient.on('rejoin', (event) => {
+          setRejoin(event);
+          if (event.status === 'failed') {
+            setError(createAgoraClientError(
+              event.errorCode ?? 'unknown',
+              `Lost connection (${event.reason}) and could not rejoin: ${event.error || 'Unknown error'}`
+            ));
+          } else if (event.status === 'rejoined') {
+            setError(null);
+          }
+        }),
+        agoraClient.on('token-renewal', (event) => {
+          setTokenRenewal(event);
+          if (event.status === 'failed') {
+            setError(createAgoraClientError(
+              event.errorCode ?? 'unknown',
+              `Token renewal failed: ${event.error || 'Unknown error'}`
+            ));
+          } else if (event.status === 'renewed') {
+            setError(null);
+          }
+        })
+      ];
 
-      // Set up a periodic update for remote users
-      const interval = setInterval(updateRemoteUsers, 1000);
+      await agoraClient.joinAsAudience();
 
-      // Store interval ID for cleanup
-      (agoraClient as typeof agoraClient & { updateInterval: ReturnType<typeof setInterval> }).updateInterval = interval;
+      // Unmounted while joining, e.g. a channel removed from the monitor wall
+      if (!isMountedRef.current) {
+        unsubscribeAll();
+        await agoraClient.leave();
+        return;
+      }
 
+      setClient(agoraClient);
+      setIsJoined(true);
+      setJoinedUid(agoraClient.getJoinedUid());
+      syncRemoteUsers();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to join channel';
-      setError(errorMessage);
-      console.error('Join channel error:', err);
+      unsubscribeAll();
+      setConnectionState('disconnected');
+      setError(toAgoraClientError(err, 'Failed to join channel'));
+      logger.error('ui', 'Join channel error', err);
     } finally {
       setIsJoining(false);
     }
-  }, [appId, channel, uid, appCertificate, isJoining, isJoined]);
+  }, [appId, channel, uid, mode, codec, audienceLatency, tokenProvider, logger, playerIdPrefix, remoteVideoPlayerConfig, retryIndefinitely, unsubscribeAll, updateActiveSpeaker]);
+
+  const joinChannel = useCallback(async (providedToken?: string) => {
+    if (isJoining || isJoined) return;
+    await connect(providedToken);
+  }, [isJoining, isJoined, connect]);
 
   const leaveChannel = useCallback(async () => {
     if (!client || !isJoined) return;
 
     try {
-      // Clear the update interval
-      const clientWithInterval = client as typeof client & { updateInterval?: ReturnType<typeof setInterval> };
-      if (clientWithInterval.updateInterval) {
-        clearInterval(clientWithInterval.updateInterval);
-      }
+      unsubscribeAll();
 
       await client.leave();
       setClient(null);
       setIsJoined(false);
+      setJoinedUid(null);
       setRemoteUsers([]);
       setError(null);
+      setTokenRenewal(null);
+      setConnectionState('disconnected');
+      setConnectionReason(null);
+      setRejoin(null);
+      setIsAutoplayBlocked(false);
+      resetAudioLevels();
+      setStatsHistory([]);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to leave channel';
-      setError(errorMessage);
-      console.error('Leave channel error:', err);
+      setError(toAgoraClientError(err, 'Failed to leave channel'));
+      logger.error('ui', 'Leave channel error', err);
     }
-  }, [client, isJoined]);
+  }, [client, isJoined, logger, unsubscribeAll, resetAudioLevels]);
+
+  /**
+   * Leave if still joined and join again with a fresh token, e.g. after rejoins or
+   * token renewals gave up, which leaves the hook joined but without a working connection
+   */
+  const rejoinChannel = useCallback(async () => {
+    if (isJoining) return;
+
+    if (isJoined) {
+      await leaveChannel();
+    }
+    await connect();
+  }, [isJoining, isJoined, leaveChannel, connect]);
+
+  const setFocusedUid = useCallback((focusedUid: UID | null) => {
+    client?.setFocusedUid(focusedUid).catch(err => {
+      logger.warn('ui', 'Failed to update focused user', err);
+    });
+  }, [client, logger]);
+
+  const setUserAudio = useCallback((audioUid: UID, settings: Partial<RemoteUserAudio>) => {
+    const key = String(audioUid);
+    userAudioRef.current = {
+      ...userAudioRef.current,
+      [key]: { ...(userAudioRef.current[key] ?? DEFAULT_REMOTE_USER_AUDIO), ...settings }
+    };
+    setUserAudioState(userAudioRef.current);
+    // Also reaches a client that is still joining
+    lastClientRef.current?.setUserAudio(audioUid, settings);
+  }, []);
+
+  const resumeAudio = useCallback(() => {
+    lastClientRef.current?.resumeAudioPlayback();
+    setIsAutoplayBlocked(false);
+  }, []);
+
+  const downloadDiagnostics = useCallback(async () => {
+    // The last client tried, so a failed join still contributes its connection history
+    const bundle = lastClientRef.current
+      ? await lastClientRef.current.collectDiagnostics()
+      : await collectDiagnostics({ logger });
+    downloadDiagnosticsBundle(bundle);
+  }, [logger]);
+
+  const { chatMessages, chatError, sendChatMessage } = useAgoraChat(isJoined ? client : null);
+
+  const captureSnapshot = useCallback(async (snapshotUid: UID, options?: SnapshotOptions): Promise<Blob> => {
+    if (!client) {
+      throw new Error('Join the channel before taking snapshots');
+    }
+    return client.captureSnapshot(snapshotUid, options);
+  }, [client]);
+
+  // Stats have no SDK event, so sample them only while someone is looking
+  useEffect(() => {
+    if (!client || !isJoined || !collectStats) return;
+
+    const sampleStats = () => {
+      const sample = client.getMediaStats();
+      setStatsHistory(history => [...history, sample].slice(-STATS_HISTORY_LENGTH));
+    };
+
+    sampleStats();
+    const interval = setInterval(sampleStats, STATS_SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [client, isJoined, collectStats]);
+
+  useEffect(() => {
+    client?.setRemoteAudioPlayback(playRemoteAudio);
+  }, [client, playRemoteAudio]);
+
+  useEffect(() => {
+    client?.setRemoteAudioVolume(remoteAudioVolume);
+  }, [client, remoteAudioVolume]);
+
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+    };
+  }, []);
 
-  // Cleanup on unmount
+  // Cleanup on unmount. Read through a ref, so replacing the client on rejoin doesn't leave the new one.
+  const joinedClientRef = useRef<AgoraClient | null>(null);
+  joinedClientRef.current = isJoined ? client : null;
   useEffect(() => {
     return () => {
-      if (client) {
-        leaveChannel();
+      const joinedClient = joinedClientRef.current;
+      if (joinedClient) {
+        unsubscribeAll();
+        joinedClient.leave().catch(err => logger.error('ui', 'Leave channel error', err));
       }
     };
-  }, [client, leaveChannel]);
+  }, [unsubscribeAll, logger]);
 
   return {
     isJoined,
     isJoining,
+    joinedUid,
     remoteUsers,
     error,
+    tokenRenewal,
+    connectionState,
+    connectionReason,
+    rejoin,
+    audioLevels,
+    activeSpeakerUid,
+    setFocusedUid,
+    userAudio,
+    setUserAudio,
+    isAutoplayBlocked,
+    resumeAudio,
+    statsHistory,
+    captureSnapshot,
+    chatMessages,
+    chatError,
+    sendChatMessage,
+    downloadDiagnostics,
     joinChannel,
     leaveChannel,
+    rejoinChannel,
     generateToken
   };
 }
\ No newline at end of file
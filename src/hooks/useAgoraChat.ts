@@ -0,0 +1,62 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import type { AgoraClient } from '@/lib/agora-config';
+import type { ChatMessage, ChatMessageKind } from '@/lib/agora-chat';
+import { defaultLogger } from '@/lib/logger';
+
+const CHAT_HISTORY_LENGTH = 200;
+
+export interface ChatLogEntry extends ChatMessage {
+  isLocal: boolean;
+}
+
+export interface UseAgoraChatReturn {
+  // Oldest first, at most CHAT_HISTORY_LENGTH entries
+  chatMessages: ChatLogEntry[];
+  chatError: string | null;
+  sendChatMessage: (text: string, kind?: ChatMessageKind) => Promise<void>;
+}
+
+/**
+ * Chat log for a joined client. Pass null while not in a channel; the log is
+ * cleared whenever the client changes.
+ */
+export function useAgoraChat(client: AgoraClient | null): UseAgoraChatReturn {
+  const [chatMessages, setChatMessages] = useState<ChatLogEntry[]>([]);
+  const [chatError, setChatError] = useState<string | null>(null);
+
+  const appendMessage = useCallback((entry: ChatLogEntry) => {
+    setChatMessages(messages => [...messages, entry].slice(-CHAT_HISTORY_LENGTH));
+  }, []);
+
+  useEffect(() => {
+    setChatMessages([]);
+    setChatError(null);
+    if (!client) return;
+
+    return client.on('chat-message', (message) => {
+      appendMessage({ ...message, isLocal: false });
+    });
+  }, [client, appendMessage]);
+
+  const sendChatMessage = useCallback(async (text: string, kind: ChatMessageKind = 'text') => {
+    if (!client) return;
+
+    setChatError(null);
+    try {
+      const message = await client.sendChatMessage(text, kind);
+      appendMessage({ ...message, isLocal: true });
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send message';
+      setChatError(errorMessage);
+      defaultLogger.error('ui', 'Send chat message error', err);
+    }
+  }, [client, appendMessage]);
+
+  return {
+    chatMessages,
+    chatError,
+    sendChatMessage
+  };
+}
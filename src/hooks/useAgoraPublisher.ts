@@ -0,0 +1,343 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { AgoraClient, AgoraCodec, AgoraConfig, AgoraMode, VideoEncoderProfile } from '@/lib/agora-config';
+import type { ChatMessageKind } from '@/lib/agora-chat';
+import type { TokenProvider } from '@/lib/token-providers';
+import { AgoraClientError, toAgoraClientError } from '@/lib/agora-errors';
+import { defaultLogger } from '@/lib/logger';
+import { ChatLogEntry, useAgoraChat } from './useAgoraChat';
+
+const DEFAULT_VIDEO_PROFILE: VideoEncoderProfile = '720p_2';
+
+export interface UseAgoraPublisherProps {
+  appId: string;
+  channel: string;
+  uid?: string | number;
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  // Defaults to this app's /api/agora/token route; must be stable across renders
+  tokenProvider?: TokenProvider;
+}
+
+export interface UseAgoraPublisherReturn {
+  isPreviewing: boolean;
+  isLive: boolean;
+  isStarting: boolean;
+  isMicMuted: boolean;
+  isCameraOff: boolean;
+  error: AgoraClientError | null;
+  startPreview: () => Promise<void>;
+  stopPreview: () => void;
+  goLive: (token?: string) => Promise<void>;
+  stopLive: () => Promise<void>;
+  toggleMic: () => Promise<void>;
+  toggleCamera: () => Promise<void>;
+  isScreenSharing: boolean;
+  startScreenShare: (withAudio?: boolean) => Promise<void>;
+  stopScreenShare: () => Promise<void>;
+  cameras: MediaDeviceInfo[];
+  microphones: MediaDeviceInfo[];
+  // Empty string means the system default device
+  cameraId: string;
+  microphoneId: string;
+  videoProfile: VideoEncoderProfile;
+  setCamera: (deviceId: string) => Promise<void>;
+  setMicrophone: (deviceId: string) => Promise<void>;
+  setVideoProfile: (profile: VideoEncoderProfile) => Promise<void>;
+  refreshDevices: () => Promise<void>;
+  chatMessages: ChatLogEntry[];
+  chatError: string | null;
+  sendChatMessage: (text: string, kind?: ChatMessageKind) => Promise<void>;
+}
+
+/**
+ * Publisher counterpart of useAgoraAudience. The self-view is played into the
+ * element with id `local-player`, which the page must render.
+ */
+export function useAgoraPublisher({
+  appId,
+  channel,
+  uid,
+  mode,
+  codec,
+  tokenProvider
+}: UseAgoraPublisherProps): UseAgoraPublisherReturn {
+  const clientRef = useRef<AgoraClient | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isLive, setIsLive] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isMicMuted, setIsMicMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  // Same client as clientRef, but only while live so chat re-subscribes per session
+  const [liveClient, setLiveClient] = useState<AgoraClient | null>(null);
+  const [error, setError] = useState<AgoraClientError | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([]);
+  const [cameraId, setCameraId] = useState('');
+  const [microphoneId, setMicrophoneId] = useState('');
+  const [videoProfile, setVideoProfileState] = useState<VideoEncoderProfile>(DEFAULT_VIDEO_PROFILE);
+  const unsubscribeRef = useRef<Array<() => void>>([]);
+
+  const refreshDevices = useCallback(async () => {
+    const agoraClient = clientRef.current;
+    if (!agoraClient) return;
+
+    try {
+      const [cameraList, microphoneList] = await Promise.all([
+        agoraClient.getCameras(),
+        agoraClient.getMicrophones()
+      ]);
+      setCameras(cameraList);
+      setMicrophones(microphoneList);
+
+      // Reflect the device actually in use, e.g. after an unplug fallback
+      const activeDevices = agoraClient.getActiveDeviceIds();
+      if (activeDevices.camera) setCameraId(activeDevices.camera);
+      if (activeDevices.microphone) setMicrophoneId(activeDevices.microphone);
+    } catch (err) {
+      defaultLogger.error('ui', 'Device enumeration error', err);
+    }
+  }, []);
+
+  // The preview and the live session share one client so the preview tracks get published
+  const getClient = useCallback((): AgoraClient => {
+    if (!clientRef.current) {
+      const config: AgoraConfig = {
+        appId,
+        channel,
+        uid,
+        mode,
+        codec,
+        tokenProvider,
+        cameraId: cameraId || undefined,
+        microphoneId: microphoneId || undefined,
+        videoEncoderConfig: videoProfile
+      };
+      const agoraClient = new AgoraClient(config);
+      unsubscribeRef.current = [
+        agoraClient.on('device-changed', () => {
+          void refreshDevices();
+        }),
+        // Covers the browser's "Stop sharing" button as well as our own controls
+        agoraClient.on('video-source-changed', (source) => {
+          setIsScreenSharing(source === 'screen');
+        })
+      ];
+      clientRef.current = agoraClient;
+    }
+    return clientRef.current;
+  }, [appId, channel, uid, mode, codec, tokenProvider, cameraId, microphoneId, videoProfile, refreshDevices]);
+
+  const releaseClient = useCallback(() => {
+    unsubscribeRef.current.forEach(unsubscribe => unsubscribe());
+    unsubscribeRef.current = [];
+    clientRef.current = null;
+    setIsScreenSharing(false);
+    setLiveClient(null);
+  }, []);
+
+  const startPreview = useCallback(async () => {
+    if (isPreviewing) return;
+
+    setError(null);
+
+    try {
+      await getClient().startPreview();
+      setIsPreviewing(true);
+      setIsMicMuted(false);
+      setIsCameraOff(false);
+      // Device labels are only available once capture permission is granted
+      await refreshDevices();
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to access camera or microphone'));
+      defaultLogger.error('ui', 'Start preview error', err);
+      // The settings unlock again, so the next attempt must build a client from them
+      clientRef.current?.stopPreview();
+      releaseClient();
+    }
+  }, [isPreviewing, getClient, refreshDevices, releaseClient]);
+
+  const stopPreview = useCallback(() => {
+    if (isLive || !clientRef.current) return;
+
+    clientRef.current.stopPreview();
+    releaseClient();
+    setIsPreviewing(false);
+  }, [isLive, releaseClient]);
+
+  const goLive = useCallback(async (providedToken?: string) => {
+    if (isStarting || isLive) return;
+
+    setIsStarting(true);
+    setError(null);
+
+    try {
+      const agoraClient = getClient();
+      await agoraClient.joinAsPublisher(providedToken);
+
+      // Apply mute choices made during the preview
+      await agoraClient.muteLocalAudio(isMicMuted);
+      await agoraClient.muteLocalVideo(isCameraOff);
+
+      setIsLive(true);
+      setIsPreviewing(true);
+      setLiveClient(agoraClient);
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to go live'));
+      defaultLogger.error('ui', 'Go live error', err);
+      // Without a preview the settings unlock again, so the next attempt must build a client from them
+      if (!isPreviewing) {
+        clientRef.current?.stopPreview();
+        releaseClient();
+      }
+    } finally {
+      setIsStarting(false);
+    }
+  }, [isStarting, isLive, isPreviewing, isMicMuted, isCameraOff, getClient, releaseClient]);
+
+  const stopLive = useCallback(async () => {
+    if (!isLive || !clientRef.current) return;
+
+    try {
+      // leave() also closes the local tracks, so start a fresh preview afterwards
+      await clientRef.current.leave();
+      releaseClient();
+      setIsLive(false);
+      setIsPreviewing(false);
+      setIsMicMuted(false);
+      setIsCameraOff(false);
+
+      await getClient().startPreview();
+      setIsPreviewing(true);
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to stop broadcast'));
+      defaultLogger.error('ui', 'Stop live error', err);
+    }
+  }, [isLive, getClient, releaseClient]);
+
+  const toggleMic = useCallback(async () => {
+    if (!clientRef.current) return;
+
+    try {
+      await clientRef.current.muteLocalAudio(!isMicMuted);
+      setIsMicMuted(!isMicMuted);
+    } catch (err) {
+      defaultLogger.error('ui', 'Toggle microphone error', err);
+    }
+  }, [isMicMuted]);
+
+  const toggleCamera = useCallback(async () => {
+    if (!clientRef.current) return;
+
+    try {
+      await clientRef.current.muteLocalVideo(!isCameraOff);
+      setIsCameraOff(!isCameraOff);
+    } catch (err) {
+      defaultLogger.error('ui', 'Toggle camera error', err);
+    }
+  }, [isCameraOff]);
+
+  const startScreenShare = useCallback(async (withAudio: boolean = false) => {
+    if (!clientRef.current) return;
+
+    setError(null);
+    try {
+      await clientRef.current.startScreenShare({ withAudio });
+    } catch (err) {
+      const clientError = toAgoraClientError(err, 'Failed to share screen');
+      // Dismissing the browser's picker is not an error worth showing
+      if (clientError.code === 'permission-denied') return;
+      setError(clientError);
+      defaultLogger.error('ui', 'Start screen share error', err);
+    }
+  }, []);
+
+  const stopScreenShare = useCallback(async () => {
+    if (!clientRef.current) return;
+
+    try {
+      await clientRef.current.stopScreenShare();
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to stop screen sharing'));
+      defaultLogger.error('ui', 'Stop screen share error', err);
+    }
+  }, []);
+
+  const setCamera = useCallback(async (deviceId: string) => {
+    setError(null);
+    try {
+      await clientRef.current?.setCamera(deviceId);
+      setCameraId(deviceId);
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to switch camera'));
+      defaultLogger.error('ui', 'Switch camera error', err);
+    }
+  }, []);
+
+  const setMicrophone = useCallback(async (deviceId: string) => {
+    setError(null);
+    try {
+      await clientRef.current?.setMicrophone(deviceId);
+      setMicrophoneId(deviceId);
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to switch microphone'));
+      defaultLogger.error('ui', 'Switch microphone error', err);
+    }
+  }, []);
+
+  const setVideoProfile = useCallback(async (profile: VideoEncoderProfile) => {
+    setError(null);
+    try {
+      await clientRef.current?.setVideoEncoderConfig(profile);
+      setVideoProfileState(profile);
+    } catch (err) {
+      setError(toAgoraClientError(err, 'Failed to change video quality'));
+      defaultLogger.error('ui', 'Set video profile error', err);
+    }
+  }, []);
+
+  const { chatMessages, chatError, sendChatMessage } = useAgoraChat(liveClient);
+
+  // Release the camera and leave the channel on unmount
+  useEffect(() => {
+    return () => {
+      const agoraClient = clientRef.current;
+      if (agoraClient) {
+        agoraClient.stopPreview();
+        agoraClient.leave().catch(err => defaultLogger.error('ui', 'Leave channel error', err));
+      }
+    };
+  }, []);
+
+  return {
+    isPreviewing,
+    isLive,
+    isStarting,
+    isMicMuted,
+    isCameraOff,
+    error,
+    startPreview,
+    stopPreview,
+    goLive,
+    stopLive,
+    toggleMic,
+    toggleCamera,
+    isScreenSharing,
+    startScreenShare,
+    stopScreenShare,
+    cameras,
+    microphones,
+    cameraId,
+    microphoneId,
+    videoProfile,
+    setCamera,
+    setMicrophone,
+    setVideoProfile,
+    refreshDevices,
+    chatMessages,
+    chatError,
+    sendChatMessage
+  };
+}
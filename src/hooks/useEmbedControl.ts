@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useCallback, useRef } from 'react';
+import type { IAgoraRTCRemoteUser } from 'agora-rtc-sdk-ng';
+import {
+  EmbedCommand,
+  EmbedConnectionState,
+  EmbedEvent,
+  createEmbedEventMessage,
+  getEmbedAllowedOrigins,
+  parseEmbedCommand
+} from '@/lib/embed-protocol';
+
+// Fixed at build time, like every NEXT_PUBLIC_ variable
+const allowedOrigins = getEmbedAllowedOrigins();
+
+export interface UseEmbedControlOptions {
+  channel: string;
+  uid: string | number | null;
+  isJoined: boolean;
+  remoteUsers: IAgoraRTCRemoteUser[];
+  connectionState: EmbedConnectionState;
+  error: { code: string; message: string } | null;
+  onCommand: (command: EmbedCommand) => void;
+}
+
+export interface UseEmbedControlReturn {
+  // Does nothing outside an iframe, or when no host origin is allowed
+  postEvent: (event: EmbedEvent) => void;
+}
+
+function isEmbedded(): boolean {
+  return typeof window !== 'undefined' && window.parent !== window && allowedOrigins.length > 0;
+}
+
+/**
+ * Player side of the embed protocol: takes commands from an allowed parent page and
+ * reports joins, users, connection state and errors back to it
+ */
+export function useEmbedControl({
+  channel,
+  uid,
+  isJoined,
+  remoteUsers,
+  connectionState,
+  error,
+  onCommand
+}: UseEmbedControlOptions): UseEmbedControlReturn {
+  const onCommandRef = useRef(onCommand);
+  onCommandRef.current = onCommand;
+  const knownUidsRef = useRef<Set<string | number>>(new Set());
+
+  const postEvent = useCallback((event: EmbedEvent) => {
+    if (!isEmbedded()) return;
+
+    // The parent's origin can't be read, so address each allowed one; the browser drops the rest
+    const message = createEmbedEventMessage(event);
+    allowedOrigins.forEach(origin => {
+      window.parent.postMessage(message, origin);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isEmbedded()) return;
+
+    const handleMessage = (message: MessageEvent) => {
+      if (message.source !== window.parent || !allowedOrigins.includes(message.origin)) return;
+
+      const parsed = parseEmbedCommand(message.data);
+      if (!parsed) return;
+
+      if ('problem' in parsed) {
+        postEvent({ event: 'error', code: 'invalid-command', message: parsed.problem });
+        return;
+      }
+      onCommandRef.current(parsed.command);
+    };
+
+    window.addEventListener('message', handleMessage);
+    postEvent({ event: 'ready' });
+    return () => {
+      window.removeEventListener('message', handleMessage);
+    };
+  }, [postEvent]);
+
+  useEffect(() => {
+    if (isJoined) {
+      postEvent({ event: 'joined', channel, uid });
+    }
+  }, [isJoined, channel, uid, postEvent]);
+
+  // remoteUsers is replaced on every change, so diff it against the uids already reported
+  useEffect(() => {
+    const currentUids = new Set(remoteUsers.map(user => user.uid));
+    knownUidsRef.current.forEach(knownUid => {
+      if (!currentUids.has(knownUid)) {
+        postEvent({ event: 'user-left', uid: knownUid });
+      }
+    });
+    currentUids.forEach(currentUid => {
+      if (!knownUidsRef.current.has(currentUid)) {
+        postEvent({ event: 'user-joined', uid: currentUid });
+      }
+    });
+    knownUidsRef.current = currentUids;
+  }, [remoteUsers, postEvent]);
+
+  useEffect(() => {
+    postEvent({ event: 'connection-state', state: connectionState });
+  }, [connectionState, postEvent]);
+
+  const errorCode = error?.code;
+  const errorMessage = error?.message;
+  useEffect(() => {
+    if (errorCode && errorMessage) {
+      postEvent({ event: 'error', code: errorCode, message: errorMessage });
+    }
+  }, [errorCode, errorMessage, postEvent]);
+
+  return { postEvent };
+}
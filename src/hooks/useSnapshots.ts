@@ -0,0 +1,115 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { UID } from 'agora-rtc-sdk-ng';
+import type { SnapshotFormat, SnapshotOptions } from '@/lib/snapshot';
+import { downloadBlob } from '@/lib/download';
+import { defaultLogger } from '@/lib/logger';
+
+const SNAPSHOT_GALLERY_LENGTH = 24;
+
+export interface Snapshot {
+  id: string;
+  uid: UID;
+  takenAt: number;
+  filename: string;
+  blob: Blob;
+  // Object URL for previews; revoked when the snapshot leaves the gallery
+  url: string;
+}
+
+export interface UseSnapshotsOptions {
+  channel: string;
+  format?: SnapshotFormat;
+  watermark?: boolean;
+}
+
+export interface UseSnapshotsReturn {
+  // Newest first, at most SNAPSHOT_GALLERY_LENGTH entries
+  snapshots: Snapshot[];
+  snapshotError: string | null;
+  // Capture and download one snapshot per user
+  takeSnapshots: (uids: UID[]) => Promise<void>;
+  downloadSnapshot: (snapshot: Snapshot) => void;
+  clearSnapshots: () => void;
+}
+
+/**
+ * Session gallery of snapshots taken with the audience hook's captureSnapshot
+ */
+export function useSnapshots(
+  captureSnapshot: (uid: UID, options?: SnapshotOptions) => Promise<Blob>,
+  { channel, format = 'image/png', watermark = true }: UseSnapshotsOptions
+): UseSnapshotsReturn {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [snapshotError, setSnapshotError] = useState<string | null>(null);
+  const snapshotsRef = useRef<Snapshot[]>([]);
+
+  const updateSnapshots = useCallback((next: Snapshot[]) => {
+    const kept = next.slice(0, SNAPSHOT_GALLERY_LENGTH);
+    snapshotsRef.current
+      .filter(snapshot => !kept.includes(snapshot))
+      .forEach(snapshot => URL.revokeObjectURL(snapshot.url));
+    snapshotsRef.current = kept;
+    setSnapshots(kept);
+  }, []);
+
+  const takeSnapshots = useCallback(async (uids: UID[]) => {
+    if (uids.length === 0) return;
+
+    setSnapshotError(null);
+    const extension = format === 'image/jpeg' ? 'jpg' : 'png';
+    const taken: Snapshot[] = [];
+
+    for (const uid of uids) {
+      try {
+        const blob = await captureSnapshot(uid, { format, watermark });
+        const takenAt = Date.now();
+        const timestamp = new Date(takenAt).toISOString().replace(/[:.]/g, '-');
+        const snapshot: Snapshot = {
+          id: `${uid}-${takenAt}`,
+          uid,
+          takenAt,
+          filename: `${channel}-${uid}-${timestamp}.${extension}`,
+          blob,
+          url: URL.createObjectURL(blob)
+        };
+        downloadBlob(blob, snapshot.filename);
+        taken.push(snapshot);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to take snapshot';
+        setSnapshotError(errorMessage);
+        defaultLogger.error('ui', 'Snapshot error', err);
+      }
+    }
+
+    if (taken.length > 0) {
+      updateSnapshots([...taken.reverse(), ...snapshotsRef.current]);
+    }
+  }, [captureSnapshot, channel, format, watermark, updateSnapshots]);
+
+  const downloadSnapshot = useCallback((snapshot: Snapshot) => {
+    downloadBlob(snapshot.blob, snapshot.filename);
+  }, []);
+
+  const clearSnapshots = useCallback(() => {
+    updateSnapshots([]);
+    setSnapshotError(null);
+  }, [updateSnapshots]);
+
+  // Release the preview URLs on unmount
+  useEffect(() => {
+    return () => {
+      snapshotsRef.current.forEach(snapshot => URL.revokeObjectURL(snapshot.url));
+      snapshotsRef.current = [];
+    };
+  }, []);
+
+  return {
+    snapshots,
+    snapshotError,
+    takeSnapshots,
+    downloadSnapshot,
+    clearSnapshots
+  };
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { IAgoraRTCRemoteUser } from 'agora-rtc-sdk-ng';
+import { RecordingStats, RecordingTarget, StreamRecorder } from '@/lib/stream-recorder';
+import { downloadBlob } from '@/lib/download';
+import { defaultLogger } from '@/lib/logger';
+
+const STATS_REFRESH_MS = 1000;
+
+const INACTIVE_STATS: RecordingStats = { state: 'inactive', durationMs: 0, sizeBytes: 0 };
+
+export interface UseStreamRecorderReturn {
+  recording: RecordingStats;
+  recordingError: string | null;
+  startRecording: (target: RecordingTarget) => void;
+  pauseRecording: () => void;
+  resumeRecording: () => void;
+  // Stops and downloads the file
+  stopRecording: () => Promise<void>;
+  setRecordingTarget: (target: RecordingTarget) => void;
+}
+
+/**
+ * Record the given remote users to a WebM download. Keep passing the latest user
+ * list; users publishing or unpublishing mid-recording are picked up automatically.
+ */
+export function useStreamRecorder(users: IAgoraRTCRemoteUser[], filenamePrefix: string = 'recording'): UseStreamRecorderReturn {
+  const recorderRef = useRef<StreamRecorder | null>(null);
+  const [recording, setRecording] = useState<RecordingStats>(INACTIVE_STATS);
+  const [recordingError, setRecordingError] = useState<string | null>(null);
+  const filenamePrefixRef = useRef(filenamePrefix);
+  filenamePrefixRef.current = filenamePrefix;
+
+  useEffect(() => {
+    recorderRef.current?.setSources(users);
+  }, [users]);
+
+  const refreshStats = useCallback(() => {
+    setRecording(recorderRef.current?.getStats() ?? INACTIVE_STATS);
+  }, []);
+
+  const startRecording = useCallback((target: RecordingTarget) => {
+    if (recorderRef.current) return;
+
+    setRecordingError(null);
+    try {
+      const recorder = new StreamRecorder(target);
+      recorder.start(users);
+      recorderRef.current = recorder;
+      refreshStats();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start recording';
+      setRecordingError(errorMessage);
+      defaultLogger.error('ui', 'Start recording error', err);
+    }
+  }, [users, refreshStats]);
+
+  const pauseRecording = useCallback(() => {
+    recorderRef.current?.pause();
+    refreshStats();
+  }, [refreshStats]);
+
+  const resumeRecording = useCallback(() => {
+    recorderRef.current?.resume();
+    refreshStats();
+  }, [refreshStats]);
+
+  const stopRecording = useCallback(async () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+
+    recorderRef.current = null;
+    try {
+      const blob = await recorder.stop();
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      downloadBlob(blob, `${filenamePrefixRef.current}-${timestamp}.webm`);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to stop recording';
+      setRecordingError(errorMessage);
+      defaultLogger.error('ui', 'Stop recording error', err);
+    } finally {
+      setRecording(INACTIVE_STATS);
+    }
+  }, []);
+
+  const setRecordingTarget = useCallback((target: RecordingTarget) => {
+    recorderRef.current?.setTarget(target);
+  }, []);
+
+  // Duration and size have no events, so poll while recording
+  useEffect(() => {
+    if (recording.state === 'inactive') return;
+
+    const interval = setInterval(refreshStats, STATS_REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [recording.state, refreshStats]);
+
+  // Don't lose a recording in progress on unmount
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder) {
+        recorderRef.current = null;
+        recorder.stop()
+          .then(blob => downloadBlob(blob, `${filenamePrefixRef.current}-${Date.now()}.webm`))
+          .catch(err => defaultLogger.error('ui', 'Stop recording error', err));
+      }
+    };
+  }, []);
+
+  return {
+    recording,
+    recordingError,
+    startRecording,
+    pauseRecording,
+    resumeRecording,
+    stopRecording,
+    setRecordingTarget
+  };
+}
@@ -0,0 +1,178 @@
+import type { UID } from 'agora-rtc-sdk-ng';
+
+export type ChatMessageKind = 'text' | 'reaction';
+
+/**
+ * Envelope sent over the RTC data stream
+ */
+export interface ChatMessage {
+  id: string;
+  uid: UID;
+  // Sender's clock, milliseconds since the epoch
+  timestamp: number;
+  kind: ChatMessageKind;
+  text: string;
+}
+
+export const MAX_CHAT_TEXT_LENGTH = 2000;
+
+// The SDK rejects data stream packets larger than 1 KB
+const MAX_PACKET_BYTES = 1024;
+
+// Packet layout: version (1 byte), message id (8 bytes), chunk index (1 byte), chunk count (1 byte), payload
+const PROTOCOL_VERSION = 1;
+const MESSAGE_ID_BYTES = 8;
+const HEADER_BYTES = 1 + MESSAGE_ID_BYTES + 2;
+const MAX_CHUNK_BYTES = MAX_PACKET_BYTES - HEADER_BYTES;
+const MAX_CHUNKS = 255;
+
+// Partially received messages are dropped after this long
+const REASSEMBLY_TIMEOUT_MS = 15000;
+
+const CHAT_MESSAGE_KINDS: ChatMessageKind[] = ['text', 'reaction'];
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function fromHex(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+export function createChatMessage(uid: UID, kind: ChatMessageKind, text: string): ChatMessage {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Chat message is empty');
+  }
+  if (trimmed.length > MAX_CHAT_TEXT_LENGTH) {
+    throw new Error(`Chat message is longer than ${MAX_CHAT_TEXT_LENGTH} characters`);
+  }
+
+  return {
+    id: toHex(crypto.getRandomValues(new Uint8Array(MESSAGE_ID_BYTES))),
+    uid,
+    timestamp: Date.now(),
+    kind,
+    text: trimmed
+  };
+}
+
+/**
+ * Split a message into packets that each fit in one data stream message
+ */
+export function encodeChatMessage(message: ChatMessage): Uint8Array[] {
+  const payload = new TextEncoder().encode(JSON.stringify(message));
+  const chunkCount = Math.max(1, Math.ceil(payload.length / MAX_CHUNK_BYTES));
+  if (chunkCount > MAX_CHUNKS) {
+    throw new Error('Chat message is too large to send');
+  }
+
+  const messageId = fromHex(message.id);
+  const packets: Uint8Array[] = [];
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = payload.subarray(index * MAX_CHUNK_BYTES, (index + 1) * MAX_CHUNK_BYTES);
+    const packet = new Uint8Array(HEADER_BYTES + chunk.length);
+    packet[0] = PROTOCOL_VERSION;
+    packet.set(messageId, 1);
+    packet[1 + MESSAGE_ID_BYTES] = index;
+    packet[2 + MESSAGE_ID_BYTES] = chunkCount;
+    packet.set(chunk, HEADER_BYTES);
+    packets.push(packet);
+  }
+  return packets;
+}
+
+function parseChatMessage(payload: Uint8Array, senderUid: UID): ChatMessage | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(payload)) as Partial<ChatMessage>;
+    if (
+      typeof parsed.id !== 'string' ||
+      typeof parsed.timestamp !== 'number' ||
+      typeof parsed.text !== 'string' ||
+      !CHAT_MESSAGE_KINDS.includes(parsed.kind as ChatMessageKind)
+    ) {
+      return null;
+    }
+
+    return {
+      id: parsed.id,
+      // Trust the SDK's sender over whatever the envelope claims
+      uid: senderUid,
+      timestamp: parsed.timestamp,
+      kind: parsed.kind as ChatMessageKind,
+      text: parsed.text.slice(0, MAX_CHAT_TEXT_LENGTH)
+    };
+  } catch {
+    return null;
+  }
+}
+
+interface PendingChatMessage {
+  chunks: Array<Uint8Array | undefined>;
+  received: number;
+  updatedAt: number;
+}
+
+/**
+ * Collects packets per sender until a message is complete. Packets from other
+ * protocols or versions are ignored.
+ */
+export class ChatMessageAssembler {
+  private pending = new Map<string, PendingChatMessage>();
+
+  push(senderUid: UID, packet: Uint8Array): ChatMessage | null {
+    this.dropStale();
+
+    if (packet.length < HEADER_BYTES || packet[0] !== PROTOCOL_VERSION) return null;
+
+    const index = packet[1 + MESSAGE_ID_BYTES];
+    const chunkCount = packet[2 + MESSAGE_ID_BYTES];
+    if (chunkCount === 0 || index >= chunkCount) return null;
+
+    const chunk = packet.subarray(HEADER_BYTES);
+    if (chunkCount === 1) {
+      return parseChatMessage(chunk, senderUid);
+    }
+
+    const key = `${senderUid}:${toHex(packet.subarray(1, 1 + MESSAGE_ID_BYTES))}`;
+    let entry = this.pending.get(key);
+    if (!entry || entry.chunks.length !== chunkCount) {
+      entry = { chunks: new Array(chunkCount), received: 0, updatedAt: 0 };
+      this.pending.set(key, entry);
+    }
+    if (!entry.chunks[index]) {
+      entry.chunks[index] = chunk.slice();
+      entry.received++;
+    }
+    entry.updatedAt = Date.now();
+
+    if (entry.received < chunkCount) return null;
+
+    this.pending.delete(key);
+    const chunks = entry.chunks as Uint8Array[];
+    const payload = new Uint8Array(chunks.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    for (const part of chunks) {
+      payload.set(part, offset);
+      offset += part.length;
+    }
+    return parseChatMessage(payload, senderUid);
+  }
+
+  clear() {
+    this.pending.clear();
+  }
+
+  private dropStale() {
+    const now = Date.now();
+    this.pending.forEach((entry, key) => {
+      if (now - entry.updatedAt > REASSEMBLY_TIMEOUT_MS) {
+        this.pending.delete(key);
+      }
+    });
+  }
+}
@@ -1,14 +1,244 @@
-import type { IAgoraRTCClient, IAgoraRTCRemoteUser, ICameraVideoTrack, IMicrophoneAudioTrack } from 'agora-rtc-sdk-ng';
-import { agoraGetAppData, generateTokenFromBackend, generateTokenFromServer, validateAgoraToken } from './agora-utils';
+import type {
+  AudienceLatencyLevelType,
+  AudioEncoderConfigurationPreset,
+  ConnectionDisconnectedReason,
+  ConnectionState,
+  DeviceInfo,
+  IAgoraRTC,
+  IAgoraRTCClient,
+  IAgoraRTCRemoteUser,
+  ICameraVideoTrack,
+  ILocalAudioTrack,
+  ILocalTrack,
+  ILocalVideoTrack,
+  IMicrophoneAudioTrack,
+  NetworkQuality,
+  RemoteStreamFallbackType,
+  RemoteStreamType,
+  ScreenEncoderConfigurationPreset,
+  UID,
+  VideoEncoderConfiguration,
+  VideoEncoderConfigurationPreset,
+  VideoPlayerConfig
+} from 'agora-rtc-sdk-ng';
+import { ChatMessage, ChatMessageAssembler, ChatMessageKind, createChatMessage, encodeChatMessage } from './agora-chat';
+import { SnapshotOptions, renderSnapshot } from './snapshot';
+import { normalizeAgoraUid } from './agora-utils';
+import { getTokenProblems, parseAgoraToken } from './agora-token';
+import { TokenProvider, createLocalRouteTokenProvider } from './token-providers';
+import { LogLevel, Logger, defaultLogger } from './logger';
+import { ConnectionHistoryEntry, DiagnosticsBundle, collectDiagnostics } from './diagnostics';
+import {
+  AgoraClientErrorCode,
+  AgoraConfigError,
+  AgoraDeviceError,
+  AgoraTokenError,
+  toAgoraClientError
+} from './agora-errors';
+
+export type AgoraMode = 'rtc' | 'live';
+export type AgoraCodec = 'vp8' | 'vp9' | 'h264';
+export type AudienceLatency = 'low' | 'ultra-low';
+export type StreamFallback = 'disabled' | 'low-stream' | 'audio-only';
+export type DeviceKind = 'camera' | 'microphone';
+export type VideoSource = 'camera' | 'screen';
+// An SDK preset such as '720p_2', or explicit resolution, frame rate and bitrate
+export type VideoEncoderProfile = VideoEncoderConfigurationPreset | VideoEncoderConfiguration;
 
 export interface AgoraConfig {
   appId: string;
   channel: string;
+  // Used for the first join; later tokens come from tokenProvider
   token?: string;
+  // Signs tokens for joining and renewal; defaults to this app's /api/agora/token route
+  tokenProvider?: TokenProvider;
   uid?: string | number;
-  appCertificate?: string;
-  mode?: 'rtc' | 'live';
-  codec?: 'vp8' | 'vp9' | 'h264';
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  // Only used for audiences in live mode
+  audienceLatency?: AudienceLatency;
+  // What remote video degrades to on poor networks
+  streamFallback?: StreamFallback;
+  // Publisher capture devices and quality; system defaults when unset
+  cameraId?: string;
+  microphoneId?: string;
+  videoEncoderConfig?: VideoEncoderProfile;
+  audioEncoderConfig?: AudioEncoderConfigurationPreset;
+  screenEncoderConfig?: ScreenEncoderConfigurationPreset;
+  // Shared defaultLogger when unset; its level also sets the SDK's own log level
+  logger?: Logger;
+  // Remote video plays into the element with id `${playerIdPrefix}${uid}`; pages showing
+  // several channels need a prefix per channel because uids are only unique per channel
+  playerIdPrefix?: string;
+  // Play remote audio as it arrives; see setRemoteAudioPlayback
+  playRemoteAudio?: boolean;
+  // 0-100 for every remote user; see setRemoteAudioVolume
+  remoteAudioVolume?: number;
+  // Fit and mirroring of remote video
+  remoteVideoPlayerConfig?: VideoPlayerConfig;
+  // Keep retrying rejoins and token renewals at the longest backoff instead of giving up,
+  // for unattended displays that nobody is around to restart
+  retryIndefinitely?: boolean;
+}
+
+export interface ScreenShareOptions {
+  // Capture tab or system audio where the browser supports it
+  withAudio?: boolean;
+}
+
+// Mirrors the SDK's AudienceLatencyLevelType enum, which is not exported at runtime
+const AUDIENCE_LATENCY_LEVELS: Record<AudienceLatency, AudienceLatencyLevelType> = {
+  'low': 1,
+  'ultra-low': 2
+};
+
+// Mirror the SDK's RemoteStreamFallbackType and RemoteStreamType enums
+const STREAM_FALLBACK_TYPES: Record<StreamFallback, RemoteStreamFallbackType> = {
+  'disabled': 0,
+  'low-stream': 1,
+  'audio-only': 2
+};
+const HIGH_STREAM: RemoteStreamType = 0;
+const LOW_STREAM: RemoteStreamType = 1;
+
+// setLogLevel takes 0 (debug) to 3 (error)
+const SDK_LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+const CONNECTION_HISTORY_LENGTH = 100;
+
+export const DEFAULT_PLAYER_ID_PREFIX = 'user-';
+
+export interface RemoteUserAudio {
+  // 0-100, scaled by the overall remoteAudioVolume
+  volume: number;
+  muted: boolean;
+}
+
+export const DEFAULT_REMOTE_USER_AUDIO: RemoteUserAudio = { volume: 100, muted: false };
+
+export type TokenRenewalStatus = 'renewing' | 'renewed' | 'retrying' | 'failed';
+
+export interface TokenRenewalEvent {
+  status: TokenRenewalStatus;
+  reason: 'will-expire' | 'did-expire';
+  attempt: number;
+  error?: string;
+  errorCode?: AgoraClientErrorCode;
+  nextRetryMs?: number;
+}
+
+export type RejoinStatus = 'scheduled' | 'rejoining' | 'rejoined' | 'failed';
+
+export interface RejoinEvent {
+  status: RejoinStatus;
+  // Disconnect reason that triggered the rejoin
+  reason: string;
+  attempt: number;
+  error?: string;
+  errorCode?: AgoraClientErrorCode;
+  nextRetryMs?: number;
+}
+
+export interface AgoraExceptionEvent {
+  code: number;
+  msg: string;
+  uid: UID;
+}
+
+export interface AudioLevel {
+  uid: UID;
+  // 0-100 as reported by the SDK; above ~60 usually means speaking
+  level: number;
+}
+
+export interface RemoteVideoStats {
+  bitrateKbps: number;
+  width: number;
+  height: number;
+  frameRate: number;
+  // Percent, 0-100
+  packetLossRate: number;
+  end2EndDelay: number;
+}
+
+export interface RemoteAudioStats {
+  bitrateKbps: number;
+  packetLossRate: number;
+  end2EndDelay: number;
+}
+
+export interface RemoteMediaStats {
+  uid: UID;
+  video?: RemoteVideoStats;
+  audio?: RemoteAudioStats;
+}
+
+export interface MediaStatsSample {
+  timestamp: number;
+  networkQuality: NetworkQuality | null;
+  users: RemoteMediaStats[];
+}
+
+/**
+ * Events emitted by AgoraClient. `user-published` fires once the subscription has completed,
+ * so the user's tracks are available to listeners.
+ */
+export interface AgoraClientEvents {
+  'user-joined': (user: IAgoraRTCRemoteUser) => void;
+  'user-published': (user: IAgoraRTCRemoteUser, mediaType: 'audio' | 'video') => void;
+  'user-unpublished': (user: IAgoraRTCRemoteUser, mediaType: 'audio' | 'video') => void;
+  'user-left': (user: IAgoraRTCRemoteUser, reason: string) => void;
+  'connection-state-change': (curState: ConnectionState, prevState: ConnectionState, reason?: ConnectionDisconnectedReason) => void;
+  'exception': (event: AgoraExceptionEvent) => void;
+  'volume-indicator': (levels: AudioLevel[]) => void;
+  'network-quality': (quality: NetworkQuality) => void;
+  'device-changed': (kind: DeviceKind, info: DeviceInfo) => void;
+  // Also fires when the browser's own "Stop sharing" control ends a screen share
+  'video-source-changed': (source: VideoSource) => void;
+  // Only messages from other users; the sender's own messages are not echoed back
+  'chat-message': (message: ChatMessage) => void;
+  'token-renewal': (event: TokenRenewalEvent) => void;
+  'rejoin': (event: RejoinEvent) => void;
+  // The browser refused to start playback until the viewer interacts with the page;
+  // call resumeAudioPlayback from a click handler
+  'autoplay-blocked': () => void;
+}
+
+export type AgoraClientEventName = keyof AgoraClientEvents;
+
+const TOKEN_RENEWAL_MAX_ATTEMPTS = 5;
+const TOKEN_RENEWAL_BASE_DELAY_MS = 1000;
+const TOKEN_RENEWAL_MAX_DELAY_MS = 30000;
+
+const REJOIN_MAX_ATTEMPTS = 8;
+const REJOIN_BASE_DELAY_MS = 2000;
+const REJOIN_MAX_DELAY_MS = 60000;
+
+// Disconnects worth rejoining after. LEAVE is user-initiated, TOKEN_EXPIRE is handled
+// by token renewal, and bans or licence problems will not go away by retrying.
+const REJOINABLE_DISCONNECT_REASONS = new Set<string>(['NETWORK_ERROR', 'SERVER_ERROR', 'FALLBACK']);
+
+// Data streams allow roughly 30 packets and 30 KB per second per sender, so pace well below that
+const CHAT_SEND_INTERVAL_MS = 50;
+
+// sendStreamMessage exists at runtime but is missing from the SDK's type declarations
+type DataStreamClient = IAgoraRTCClient & {
+  sendStreamMessage(payload: Uint8Array | string, needRetry?: boolean): Promise<void>;
+};
+
+interface QueuedChatMessage {
+  packets: Uint8Array[];
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+function getBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(baseDelayMs * 2 ** (attempt - 1), maxDelayMs);
 }
 
 export class AgoraClient {
@@ -16,52 +246,117 @@ export class AgoraClient {
   private config: AgoraConfig;
   private localVideoTrack: ICameraVideoTrack | null = null;
   private localAudioTrack: IMicrophoneAudioTrack | null = null;
+  private localScreenTrack: ILocalVideoTrack | null = null;
+  private localScreenAudioTrack: ILocalAudioTrack | null = null;
   private isPublisher: boolean = false;
+  private role: 'publisher' | 'audience' = 'audience';
+  private joinedUid: string | number | null = null;
+  // null means no user is focused and everyone gets the high stream
+  private focusedUid: UID | null = null;
+  private remoteStreamTypes = new Map<UID, RemoteStreamType>();
+  private networkQuality: NetworkQuality | null = null;
+  // Set while device plug/unplug listeners are registered with the SDK
+  private deviceEventSource: IAgoraRTC | null = null;
+  // Set while the autoplay-failed listener is registered with the SDK
+  private autoplayEventSource: IAgoraRTC | null = null;
+  private isAutoplayBlocked: boolean = false;
+  // Keyed by String(uid), and kept across leave and rejoin
+  private remoteUserAudio = new Map<string, RemoteUserAudio>();
+  // Token from the last join or renewal. config.token stays as supplied and is only used until this is set.
+  private currentToken: string | null = null;
+  private isRenewingToken: boolean = false;
+  private tokenRenewalTimer: ReturnType<typeof setTimeout> | null = null;
+  private rejoinTimer: ReturnType<typeof setTimeout> | null = null;
+  private chatAssembler = new ChatMessageAssembler();
+  private chatQueue: QueuedChatMessage[] = [];
+  private isSendingChat: boolean = false;
+  private listeners = new Map<AgoraClientEventName, Set<AgoraClientEvents[AgoraClientEventName]>>();
+  private logger: Logger;
+  private connectionHistory: ConnectionHistoryEntry[] = [];
 
   constructor(config: AgoraConfig) {
     this.config = {
       mode: 'rtc',
       codec: 'vp8',
+      audienceLatency: 'low',
+      streamFallback: 'audio-only',
+      screenEncoderConfig: '1080p_1',
+      playerIdPrefix: DEFAULT_PLAYER_ID_PREFIX,
+      playRemoteAudio: true,
+      remoteAudioVolume: 100,
       ...config
     };
+    this.logger = this.config.logger ?? defaultLogger;
   }
 
   private async initClient() {
     if (typeof window === 'undefined') return;
 
     const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+    AgoraRTC.setLogLevel(SDK_LOG_LEVELS[this.logger.level]);
 
-    // Force RTC mode and VP8 codec for video streaming
+    // The codec must match what publishers in the channel send
     this.client = AgoraRTC.createClient({
-      mode: 'rtc',
-      codec: 'vp8'
+      mode: this.config.mode || 'rtc',
+      codec: this.config.codec || 'vp8'
     });
 
     this.setupEventListeners();
   }
 
+  // Registered per join, matching stopWatchingAutoplay in leave() and after a failed join
+  private async watchAutoplay() {
+    if (this.autoplayEventSource) return;
+
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+    AgoraRTC.on('autoplay-failed', this.handleAutoplayFailed);
+    this.autoplayEventSource = AgoraRTC;
+  }
+
+  private handleAutoplayFailed = () => {
+    this.logger.warn('media', '🔇 Autoplay blocked until the viewer interacts with the page');
+    this.isAutoplayBlocked = true;
+    this.emit('autoplay-blocked');
+  };
+
+  private stopWatchingAutoplay() {
+    this.isAutoplayBlocked = false;
+    if (this.autoplayEventSource) {
+      this.autoplayEventSource.off('autoplay-failed', this.handleAutoplayFailed);
+      this.autoplayEventSource = null;
+    }
+  }
+
   private setupEventListeners() {
     if (!this.client) return;
 
+    this.client.on('user-joined', (user: IAgoraRTCRemoteUser) => {
+      this.logger.info('connection', '🙋 User joined', { uid: user.uid });
+      this.emit('user-joined', user);
+    });
+
     this.client.on('user-published', async (user: IAgoraRTCRemoteUser, mediaType: 'audio' | 'video') => {
       if (!this.client) return;
 
       try {
         await this.client.subscribe(user, mediaType);
-        console.log('✅ Subscribed to user:', user.uid, 'mediaType:', mediaType);
+        this.logger.info('media', '✅ Subscribed to user', { uid: user.uid, mediaType });
 
         if (mediaType === 'video') {
           const remoteVideoTrack = user.videoTrack;
-          console.log('📹 Video track received:', remoteVideoTrack);
+          this.logger.debug('media', '📹 Video track received', { uid: user.uid, trackId: remoteVideoTrack?.getTrackId() });
+
+          await this.applyStreamFallback(user.uid);
+          await this.applyRemoteStreamType(user.uid);
 
           // Wait a bit for DOM to be ready and try multiple times
           const playVideo = () => {
-            const playerContainer = document.getElementById(`user-${user.uid}`);
+            const playerContainer = document.getElementById(this.getPlayerId(user.uid));
             if (playerContainer && remoteVideoTrack) {
-              console.log('🎬 Playing video in container:', playerContainer);
-              remoteVideoTrack.play(playerContainer);
+              this.logger.debug('media', '🎬 Playing video in container', { id: playerContainer.id });
+              remoteVideoTrack.play(playerContainer, this.config.remoteVideoPlayerConfig);
             } else {
-              console.warn('⚠️ Player container not found for user:', user.uid);
+              this.logger.debug('media', '⚠️ Player container not found, retrying', { uid: user.uid });
               // Retry after a short delay
               setTimeout(playVideo, 500);
             }
@@ -71,85 +366,359 @@ export class AgoraClient {
         }
 
         if (mediaType === 'audio') {
-          const remoteAudioTrack = user.audioTrack;
-          if (remoteAudioTrack) {
-            remoteAudioTrack.play();
-            console.log('🔊 Audio track playing for user:', user.uid);
+          // Muted users and a muted page stay subscribed, so levels and recordings still work
+          if (this.applyRemoteAudio(user)) {
+            this.logger.info('media', '🔊 Audio track playing', { uid: user.uid });
           }
         }
+
+        this.emit('user-published', user, mediaType);
       } catch (error) {
-        console.error('❌ Failed to subscribe to user:', user.uid, mediaType, error);
+        this.logger.error('media', '❌ Failed to subscribe to user', { uid: user.uid, mediaType, error });
       }
     });
 
     this.client.on('user-unpublished', (user: IAgoraRTCRemoteUser, mediaType: 'audio' | 'video') => {
-      console.log('📤 User unpublished:', user.uid, mediaType);
+      this.logger.info('media', '📤 User unpublished', { uid: user.uid, mediaType });
 
       if (mediaType === 'video') {
-        const playerContainer = document.getElementById(`user-${user.uid}`);
+        const playerContainer = document.getElementById(this.getPlayerId(user.uid));
         if (playerContainer) {
           playerContainer.innerHTML = '';
         }
+        // A republished stream is subscribed on the high stream again
+        this.remoteStreamTypes.delete(user.uid);
       }
+
+      this.emit('user-unpublished', user, mediaType);
     });
 
-    this.client.on('user-left', (user: IAgoraRTCRemoteUser) => {
-      console.log('👋 User left:', user.uid);
-      const playerContainer = document.getElementById(`user-${user.uid}`);
+    this.client.on('user-left', (user: IAgoraRTCRemoteUser, reason: string) => {
+      this.logger.info('connection', '👋 User left', { uid: user.uid, reason });
+      this.remoteStreamTypes.delete(user.uid);
+      const playerContainer = document.getElementById(this.getPlayerId(user.uid));
       if (playerContainer) {
         playerContainer.innerHTML = '';
       }
+
+      this.emit('user-left', user, reason);
+    });
+
+    this.client.on('connection-state-change', (curState, revState, reason) => {
+      this.logger.info('connection', `🔗 Connection state changed: ${revState} -> ${curState}`, reason ? { reason } : undefined);
+      this.connectionHistory.push({
+        timestamp: new Date().toISOString(),
+        state: curState,
+        previousState: revState,
+        reason
+      });
+      if (this.connectionHistory.length > CONNECTION_HISTORY_LENGTH) {
+        this.connectionHistory.shift();
+      }
+      this.emit('connection-state-change', curState, revState, reason);
+
+      if (curState === 'DISCONNECTED' && reason && REJOINABLE_DISCONNECT_REASONS.has(reason) && this.joinedUid !== null) {
+        this.scheduleRejoin(reason, 1);
+      }
     });
 
-    this.client.on('connection-state-change', (curState, revState) => {
-      console.log('🔗 Connection state changed:', revState, '->', curState);
+    this.client.on('exception', (event: AgoraExceptionEvent) => {
+      this.logger.warn('connection', '⚠️ Agora exception', event);
+      this.emit('exception', event);
+    });
+
+    this.client.on('stream-fallback', (uid: UID, isFallbackOrRecover: 'fallback' | 'recover') => {
+      this.logger.info('media', isFallbackOrRecover === 'fallback' ? '📉 Stream fell back' : '📈 Stream recovered', { uid });
+    });
+
+    this.client.on('network-quality', (quality: NetworkQuality) => {
+      this.networkQuality = quality;
+      this.emit('network-quality', quality);
+    });
+
+    this.client.on('volume-indicator', (levels: AudioLevel[]) => {
+      this.emit('volume-indicator', levels);
+    });
+
+    this.client.on('stream-message', (uid: UID, payload: Uint8Array) => {
+      const message = this.chatAssembler.push(uid, payload);
+      if (message) {
+        this.emit('chat-message', message);
+      }
+    });
+
+    this.client.on('token-privilege-will-expire', () => {
+      this.logger.info('token', '⏰ Token will expire soon, renewing');
+      void this.renewToken('will-expire');
+    });
+
+    this.client.on('token-privilege-did-expire', () => {
+      this.logger.warn('token', '⌛ Token expired, renewing and rejoining');
+      // An expired token supersedes any will-expire renewal still in progress
+      this.clearTokenRenewalTimer();
+      this.isRenewingToken = false;
+      void this.renewToken('did-expire');
     });
   }
 
   /**
-   * Generate token using backend API with frontend credentials or Agora's demo server
+   * Subscribe to a client event. Returns an unsubscribe function.
    */
-  async generateToken(role: 'publisher' | 'audience' = 'audience'): Promise<string> {
+  on<E extends AgoraClientEventName>(event: E, listener: AgoraClientEvents[E]): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  private emit<E extends AgoraClientEventName>(event: E, ...args: Parameters<AgoraClientEvents[E]>) {
+    this.listeners.get(event)?.forEach(listener => {
+      try {
+        (listener as (...args: Parameters<AgoraClientEvents[E]>) => void)(...args);
+      } catch (error) {
+        this.logger.error('ui', `❌ Listener for "${event}" failed`, error);
+      }
+    });
+  }
+
+  private clearTokenRenewalTimer() {
+    if (this.tokenRenewalTimer) {
+      clearTimeout(this.tokenRenewalTimer);
+      this.tokenRenewalTimer = null;
+    }
+  }
+
+  /**
+   * Fetch a fresh token for the current role and hand it to the SDK.
+   * Before expiry the token is swapped in place; after expiry the client rejoins.
+   * Failures are retried with exponential backoff.
+   */
+  private async renewToken(reason: 'will-expire' | 'did-expire', attempt: number = 1): Promise<void> {
+    if (!this.client) return;
+
+    if (attempt === 1) {
+      if (this.isRenewingToken) return;
+      this.isRenewingToken = true;
+    }
+
+    this.emit('token-renewal', { status: 'renewing', reason, attempt });
+
     try {
-      // First try using backend API with client credentials if app certificate is available
-      if (this.config.appCertificate) {
-        try {
-          return await generateTokenFromServer(
-            this.config.appId,
-            this.config.appCertificate,
-            this.config.channel,
-            this.config.uid || 0,
-            role
-          );
-        } catch (serverError) {
-          console.warn('Server token generation failed, trying alternative method:', serverError);
-
-          // Fallback to POST endpoint
-          return await generateTokenFromBackend(
-            this.config.appId,
-            this.config.appCertificate,
-            this.config.channel,
-            this.config.uid || 0,
-            role
-          );
-        }
+      const token = await this.generateToken(this.role);
+      // The channel may have been left while the token was being fetched
+      if (!this.client || this.joinedUid === null) return;
+
+      if (reason === 'did-expire') {
+        await this.rejoinWithToken(token);
+      } else {
+        await this.client.renewToken(token);
       }
 
-      // Last resort: try using Agora's demo server
-      const serverToken = await agoraGetAppData({
-        uid: this.config.uid || 0,
-        channel: this.config.channel,
-        appid: this.config.appId
+      this.currentToken = token;
+      this.isRenewingToken = false;
+      this.logger.info('token', '🔑 Token renewed', { attempt });
+      this.emit('token-renewal', { status: 'renewed', reason, attempt });
+    } catch (error) {
+      const { code, message } = toAgoraClientError(error);
+      this.logger.error('token', '❌ Token renewal failed', { attempt, error });
+
+      if (!this.client || this.joinedUid === null) return;
+
+      if (attempt >= TOKEN_RENEWAL_MAX_ATTEMPTS && !this.config.retryIndefinitely) {
+        this.isRenewingToken = false;
+        this.emit('token-renewal', { status: 'failed', reason, attempt, error: message, errorCode: code });
+        return;
+      }
+
+      const delay = getBackoffDelay(attempt, TOKEN_RENEWAL_BASE_DELAY_MS, TOKEN_RENEWAL_MAX_DELAY_MS);
+      this.emit('token-renewal', {
+        status: 'retrying',
+        reason,
+        attempt,
+        error: message,
+        errorCode: code,
+        nextRetryMs: delay
       });
 
-      if (serverToken) {
-        return serverToken;
+      this.tokenRenewalTimer = setTimeout(() => {
+        this.tokenRenewalTimer = null;
+        void this.renewToken(reason, attempt + 1);
+      }, delay);
+    }
+  }
+
+  /**
+   * Request the high stream for the focused user and the low stream for everyone else.
+   * Pass null when no user is focused to receive the high stream from all users.
+   */
+  async setFocusedUid(uid: UID | null): Promise<void> {
+    this.focusedUid = uid;
+
+    await Promise.all(
+      this.getRemoteUsers()
+        .filter(user => user.hasVideo)
+        .map(user => this.applyRemoteStreamType(user.uid))
+    );
+  }
+
+  private async applyRemoteStreamType(uid: UID): Promise<void> {
+    if (!this.client) return;
+
+    const streamType = this.focusedUid === null || this.focusedUid === uid ? HIGH_STREAM : LOW_STREAM;
+    // Subscriptions start on the high stream
+    if ((this.remoteStreamTypes.get(uid) ?? HIGH_STREAM) === streamType) return;
+
+    try {
+      await this.client.setRemoteVideoStreamType(uid, streamType);
+      this.remoteStreamTypes.set(uid, streamType);
+      this.logger.debug('media', '🎚️ Stream type changed', { uid, streamType: streamType === HIGH_STREAM ? 'high' : 'low' });
+    } catch (error) {
+      this.logger.warn('media', '⚠️ Failed to set stream type', { uid, error });
+    }
+  }
+
+  /**
+   * Snapshot of the local network quality and per-user receive statistics
+   */
+  getMediaStats(): MediaStatsSample {
+    const sample: MediaStatsSample = {
+      timestamp: Date.now(),
+      networkQuality: this.networkQuality,
+      users: []
+    };
+
+    if (!this.client) return sample;
+
+    const videoStats = this.client.getRemoteVideoStats();
+    const audioStats = this.client.getRemoteAudioStats();
+
+    sample.users = this.getRemoteUsers().map(user => {
+      const video = videoStats[user.uid];
+      const audio = audioStats[user.uid];
+
+      return {
+        uid: user.uid,
+        video: user.hasVideo && video ? {
+          bitrateKbps: video.receiveBitrate / 1000,
+          width: video.receiveResolutionWidth,
+          height: video.receiveResolutionHeight,
+          frameRate: video.renderFrameRate ?? video.receiveFrameRate ?? 0,
+          packetLossRate: video.packetLossRate,
+          end2EndDelay: video.end2EndDelay
+        } : undefined,
+        audio: user.hasAudio && audio ? {
+          bitrateKbps: audio.receiveBitrate / 1000,
+          packetLossRate: audio.packetLossRate,
+          end2EndDelay: audio.end2EndDelay
+        } : undefined
+      };
+    });
+
+    return sample;
+  }
+
+  private async applyStreamFallback(uid: UID): Promise<void> {
+    if (!this.client) return;
+
+    try {
+      await this.client.setStreamFallbackOption(uid, STREAM_FALLBACK_TYPES[this.config.streamFallback || 'audio-only']);
+    } catch (error) {
+      this.logger.warn('media', '⚠️ Failed to set stream fallback', { uid, error });
+    }
+  }
+
+  private clearRejoinTimer() {
+    if (this.rejoinTimer) {
+      clearTimeout(this.rejoinTimer);
+      this.rejoinTimer = null;
+    }
+  }
+
+  /**
+   * Rejoin with a fresh token after an unexpected disconnect, backing off exponentially
+   */
+  private scheduleRejoin(reason: string, attempt: number) {
+    this.clearRejoinTimer();
+
+    const delay = getBackoffDelay(attempt, REJOIN_BASE_DELAY_MS, REJOIN_MAX_DELAY_MS);
+    this.logger.info('connection', '🔁 Rejoin scheduled after disconnect', { reason, attempt, delay });
+    this.emit('rejoin', { status: 'scheduled', reason, attempt, nextRetryMs: delay });
+
+    this.rejoinTimer = setTimeout(async () => {
+      this.rejoinTimer = null;
+      // The user left while we were waiting
+      if (!this.client || this.joinedUid === null) return;
+
+      this.emit('rejoin', { status: 'rejoining', reason, attempt });
+
+      try {
+        const token = await this.generateToken(this.role);
+        if (!this.client || this.joinedUid === null) return;
+
+        await this.rejoinWithToken(token);
+        this.currentToken = token;
+        this.logger.info('connection', '✅ Rejoined channel', { attempt });
+        this.emit('rejoin', { status: 'rejoined', reason, attempt });
+      } catch (error) {
+        const { code, message } = toAgoraClientError(error);
+        this.logger.error('connection', '❌ Rejoin failed', { attempt, error });
+
+        if (!this.client || this.joinedUid === null) return;
+
+        if (attempt >= REJOIN_MAX_ATTEMPTS && !this.config.retryIndefinitely) {
+          this.emit('rejoin', { status: 'failed', reason, attempt, error: message, errorCode: code });
+          return;
+        }
+
+        this.scheduleRejoin(reason, attempt + 1);
       }
+    }, delay);
+  }
+
+  private async rejoinWithToken(token: string): Promise<void> {
+    if (!this.client) return;
 
-      throw new Error('No token generation method available. Please provide App Certificate.');
+    await this.client.leave();
+    this.remoteStreamTypes.clear();
+    this.joinedUid = await this.client.join(
+      this.config.appId.trim(),
+      this.config.channel.trim(),
+      token,
+      this.joinedUid ?? normalizeAgoraUid(this.config.uid)
+    );
+    // Rejoining resets the volume indicator
+    this.client.enableAudioVolumeIndicator();
+
+    // Local tracks survive leave(), so publishers only need to publish again
+    const tracks = this.getPublishableTracks();
+    if (this.isPublisher && tracks.length > 0) {
+      await this.client.publish(tracks);
+    }
+  }
+
+  /**
+   * Get a token for this channel and uid from the configured token provider
+   */
+  async generateToken(role: 'publisher' | 'audience' = 'audience'): Promise<string> {
+    const provider = this.config.tokenProvider ?? createLocalRouteTokenProvider();
+
+    try {
+      // Sign for the same identity join() will use: a numeric uid or a string account
+      return await provider.getToken({
+        appId: this.config.appId,
+        channel: this.config.channel,
+        uid: normalizeAgoraUid(this.config.uid),
+        role
+      });
     } catch (error) {
-      console.error('Token generation failed:', error);
-      throw error;
+      this.logger.error('token', `Token generation via ${provider.name} failed`, error);
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      throw new AgoraTokenError('token-unavailable', `Could not get a token from the ${provider.name}: ${reason}`, { cause: error });
     }
   }
 
@@ -158,30 +727,65 @@ export class AgoraClient {
     return this.join('audience');
   }
 
-  async joinAsPublisher(): Promise<void> {
+  /**
+   * Join and publish the local tracks, reusing any preview tracks. `token` takes the place of
+   * the configured one, e.g. when the client was created for a preview before the token was known.
+   */
+  async joinAsPublisher(token?: string): Promise<void> {
     this.isPublisher = true;
-    return this.join('publisher');
+    return this.join('publisher', token);
   }
 
-  private async join(role: 'publisher' | 'audience'): Promise<void> {
+  private async join(role: 'publisher' | 'audience', providedToken?: string): Promise<void> {
+    this.role = role;
+    // Once a token has been used, later joins get a fresh one rather than reuse the supplied one
+    const suppliedToken = providedToken ?? (this.currentToken === null ? this.config.token : undefined);
+
     // Validate required configuration
     if (!this.config.appId || this.config.appId.trim() === '') {
-      throw new Error('App ID is required and cannot be empty');
+      throw new AgoraConfigError('invalid-app-id', 'App ID is required and cannot be empty');
     }
 
     if (!this.config.channel || this.config.channel.trim() === '') {
-      throw new Error('Channel name is required and cannot be empty');
+      throw new AgoraConfigError('invalid-channel', 'Channel name is required and cannot be empty');
     }
 
     // Validate App ID format (should be 32 characters hex string)
     const appIdPattern = /^[a-f0-9]{32}$/i;
     if (!appIdPattern.test(this.config.appId.trim())) {
-      throw new Error('Invalid App ID format. App ID should be a 32-character hexadecimal string.');
+      throw new AgoraConfigError('invalid-app-id', 'Invalid App ID format. App ID should be a 32-character hexadecimal string.');
+    }
+
+    // Strings that aren't digit-only join as user accounts
+    let uid: string | number | null;
+    try {
+      uid = normalizeAgoraUid(this.config.uid);
+    } catch (uidError) {
+      throw new AgoraConfigError('invalid-uid', uidError instanceof Error ? uidError.message : 'Invalid uid', { cause: uidError });
     }
 
-    // Validate token if provided
-    if (this.config.token && !validateAgoraToken(this.config.token)) {
-      console.warn('Provided token appears to be invalid');
+    // Catch a provided token that can't work before going to the network
+    if (suppliedToken) {
+      let problems: string[] = [];
+      let isExpired = false;
+      try {
+        const parsedToken = await parseAgoraToken(suppliedToken);
+        problems = getTokenProblems(parsedToken, {
+          appId: this.config.appId,
+          channel: this.config.channel,
+          uid
+        });
+        isExpired = parsedToken.expiresAt !== null && parsedToken.expiresAt * 1000 <= Date.now();
+      } catch (parseError) {
+        // Also happens in browsers without DecompressionStream; Agora's servers have the final say
+        this.logger.warn('token', '⚠️ Could not decode the supplied token, joining without checking it', parseError);
+      }
+      if (problems.length > 0) {
+        // Retrying would only reuse the same supplied token
+        throw new AgoraTokenError(isExpired ? 'token-expired' : 'invalid-token', `Invalid token: ${problems.join('; ')}`, {
+          retryable: false
+        });
+      }
     }
 
     if (!this.client) {
@@ -189,30 +793,44 @@ export class AgoraClient {
     }
 
     if (!this.client) {
-      throw new Error('Failed to initialize Agora client');
+      throw new AgoraDeviceError('not-supported', 'Failed to initialize Agora client');
     }
 
     try {
+      await this.watchAutoplay();
+
+      // Client roles only exist in live mode; rtc clients reject setClientRole
+      if (this.config.mode === 'live') {
+        if (role === 'publisher') {
+          await this.client.setClientRole('host');
+        } else {
+          await this.client.setClientRole('audience', {
+            level: AUDIENCE_LATENCY_LEVELS[this.config.audienceLatency || 'low']
+          });
+        }
+      }
+
       // Generate token if not provided
-      let token = this.config.token;
+      let token = suppliedToken;
       if (!token) {
-        try {
-          token = await this.generateToken(role);
-          console.log('Generated token for', role);
-        } catch (tokenError) {
-          console.error('Token generation failed:', tokenError);
-          throw new Error('Token generation failed. Please check your App Certificate or server configuration.');
-        }
+        token = await this.generateToken(role);
+        this.logger.info('token', 'Generated token', { role });
       }
 
-      const uid = await this.client.join(
+      this.joinedUid = await this.client.join(
         this.config.appId.trim(),
         this.config.channel.trim(),
         token,
-        this.config.uid || null
+        uid
       );
+      this.currentToken = token;
+      this.client.enableAudioVolumeIndicator();
 
-      console.log(`Joined channel as ${role} with uid:`, uid);
+      this.logger.info('connection', `Joined channel as ${role}`, {
+        channel: this.config.channel,
+        uid: this.joinedUid,
+        uidType: typeof this.joinedUid === 'string' ? 'account' : 'uid'
+      });
 
       // For publishers, create and publish local tracks
       if (this.isPublisher) {
@@ -220,48 +838,322 @@ export class AgoraClient {
       }
 
     } catch (error: unknown) {
-      console.error('Failed to join channel:', error);
-
-      // Provide more specific error messages
-      const errorObj = error as { code?: string; message?: string };
-      if (errorObj.code === 'CAN_NOT_GET_GATEWAY_SERVER') {
-        throw new Error('Invalid App ID or network connection issue. Please verify your App ID is correct.');
-      } else if (errorObj.code === 'INVALID_TOKEN') {
-        throw new Error('Invalid token. Please check your token or generate a new one.');
-      } else if (errorObj.code === 'TOKEN_EXPIRED') {
-        throw new Error('Token has expired. Please generate a new token.');
-      } else if (errorObj.code === 'INVALID_VENDOR_KEY') {
-        throw new Error('Invalid App ID. Please check your App ID from Agora Console.');
-      } else if (errorObj.code === 'DYNAMIC_KEY_TIMEOUT') {
-        throw new Error('Token has expired. Please generate a new token.');
+      this.logger.error('connection', 'Failed to join channel', error);
+      // Nobody calls leave() after a failed join, so don't leave this client on the SDK singleton
+      this.stopWatchingAutoplay();
+
+      // Publishing can fail after the join went through; don't stay in the channel as a ghost
+      if (this.joinedUid !== null) {
+        this.joinedUid = null;
+        this.isPublisher = false;
+        this.remoteStreamTypes.clear();
+        await this.client.leave().catch(leaveError => {
+          this.logger.warn('connection', '⚠️ Failed to leave after a failed join', leaveError);
+        });
+      }
+
+      const clientError = toAgoraClientError(error, 'Failed to join channel');
+      // A token the user supplied is reused as-is, so retrying can't fix token errors
+      if (suppliedToken && clientError instanceof AgoraTokenError) {
+        throw new AgoraTokenError(clientError.code, clientError.message, { cause: error, retryable: false });
+      }
+      throw clientError;
+    }
+  }
+
+  /**
+   * Create camera and microphone tracks before joining and show the camera in the local player
+   */
+  async startPreview(): Promise<void> {
+    if (typeof window === 'undefined') return;
+
+    try {
+      await this.createLocalTracks();
+      this.playLocalVideo();
+    } catch (error) {
+      this.logger.error('media', 'Failed to start preview', error);
+      throw toAgoraClientError(error, 'Failed to access camera or microphone');
+    }
+  }
+
+  /**
+   * Release the preview tracks. Has no effect while publishing; use leave() instead.
+   */
+  stopPreview(): void {
+    if (this.isPublisher && this.joinedUid !== null) return;
+    this.closeLocalTracks();
+  }
+
+  private async createLocalTracks(): Promise<void> {
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+
+    // Reuse tracks created for the preview
+    if (!this.localAudioTrack) {
+      this.localAudioTrack = await AgoraRTC.createMicrophoneAudioTrack({
+        microphoneId: this.config.microphoneId,
+        encoderConfig: this.config.audioEncoderConfig
+      });
+    }
+    if (!this.localVideoTrack) {
+      this.localVideoTrack = await AgoraRTC.createCameraVideoTrack({
+        cameraId: this.config.cameraId,
+        encoderConfig: this.config.videoEncoderConfig
+      });
+    }
+
+    if (!this.deviceEventSource) {
+      AgoraRTC.on('camera-changed', this.handleCameraChanged);
+      AgoraRTC.on('microphone-changed', this.handleMicrophoneChanged);
+      this.deviceEventSource = AgoraRTC;
+    }
+  }
+
+  private handleCameraChanged = (info: DeviceInfo) => {
+    this.logger.info('media', info.state === 'ACTIVE' ? '📷 Camera plugged in' : '📷 Camera unplugged', { label: info.device.label });
+    this.emit('device-changed', 'camera', info);
+
+    if (info.state === 'INACTIVE' && this.localVideoTrack && this.getActiveDeviceIds().camera === info.device.deviceId) {
+      void this.fallBackToAvailableDevice('camera');
+    }
+  };
+
+  private handleMicrophoneChanged = (info: DeviceInfo) => {
+    this.logger.info('media', info.state === 'ACTIVE' ? '🎙️ Microphone plugged in' : '🎙️ Microphone unplugged', { label: info.device.label });
+    this.emit('device-changed', 'microphone', info);
+
+    if (info.state === 'INACTIVE' && this.localAudioTrack && this.getActiveDeviceIds().microphone === info.device.deviceId) {
+      void this.fallBackToAvailableDevice('microphone');
+    }
+  };
+
+  // Keep capturing (and publishing) from another device when the active one is unplugged
+  private async fallBackToAvailableDevice(kind: DeviceKind): Promise<void> {
+    try {
+      const devices = kind === 'camera' ? await this.getCameras() : await this.getMicrophones();
+      const replacement = devices[0];
+      if (!replacement) {
+        this.logger.warn('media', `⚠️ No other ${kind} available`);
+        return;
+      }
+
+      if (kind === 'camera') {
+        await this.setCamera(replacement.deviceId);
       } else {
-        throw new Error(`Failed to join channel: ${errorObj.message || errorObj.code || 'Unknown error'}`);
+        await this.setMicrophone(replacement.deviceId);
+      }
+      this.logger.info('media', `🔀 Switched ${kind}`, { label: replacement.label });
+    } catch (error) {
+      this.logger.error('media', `❌ Failed to switch ${kind} after unplug`, error);
+    }
+  }
+
+  async getCameras(): Promise<MediaDeviceInfo[]> {
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+    return AgoraRTC.getCameras();
+  }
+
+  async getMicrophones(): Promise<MediaDeviceInfo[]> {
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+    return AgoraRTC.getMicrophones();
+  }
+
+  /**
+   * Device IDs the local tracks are currently capturing from
+   */
+  getActiveDeviceIds(): { camera: string | null; microphone: string | null } {
+    return {
+      camera: this.localVideoTrack?.getMediaStreamTrack().getSettings().deviceId ?? null,
+      microphone: this.localAudioTrack?.getMediaStreamTrack().getSettings().deviceId ?? null
+    };
+  }
+
+  /**
+   * Switch camera. Published tracks keep publishing from the new device.
+   */
+  async setCamera(deviceId: string): Promise<void> {
+    this.config.cameraId = deviceId;
+    if (this.localVideoTrack) {
+      await this.localVideoTrack.setDevice(deviceId);
+    }
+  }
+
+  /**
+   * Switch microphone. Published tracks keep publishing from the new device.
+   */
+  async setMicrophone(deviceId: string): Promise<void> {
+    this.config.microphoneId = deviceId;
+    if (this.localAudioTrack) {
+      await this.localAudioTrack.setDevice(deviceId);
+    }
+  }
+
+  async setVideoEncoderConfig(encoderConfig: VideoEncoderProfile): Promise<void> {
+    this.config.videoEncoderConfig = encoderConfig;
+    if (this.localVideoTrack) {
+      await this.localVideoTrack.setEncoderConfiguration(encoderConfig);
+    }
+  }
+
+  getVideoSource(): VideoSource {
+    return this.localScreenTrack ? 'screen' : 'camera';
+  }
+
+  /**
+   * Replace the camera with a screen capture. While live, the camera is unpublished but
+   * kept open so stopScreenShare() can switch back without leaving the channel.
+   */
+  async startScreenShare(options: ScreenShareOptions = {}): Promise<void> {
+    if (typeof window === 'undefined' || this.localScreenTrack) return;
+
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+
+    // Resolves with a tuple only when the user chose to share audio as well
+    const screenTracks = await AgoraRTC.createScreenVideoTrack(
+      {
+        encoderConfig: this.config.screenEncoderConfig,
+        optimizationMode: 'detail'
+      },
+      options.withAudio ? 'auto' : 'disable'
+    );
+    const [screenTrack, screenAudioTrack] = Array.isArray(screenTracks) ? screenTracks : [screenTracks, null];
+
+    this.localScreenTrack = screenTrack;
+    this.localScreenAudioTrack = screenAudioTrack;
+    screenTrack.on('track-ended', this.handleScreenTrackEnded);
+
+    try {
+      if (this.client && this.isPublisher && this.joinedUid !== null) {
+        if (this.localVideoTrack && this.client.localTracks.includes(this.localVideoTrack)) {
+          await this.client.unpublish(this.localVideoTrack);
+        }
+        await this.client.publish(screenAudioTrack ? [screenTrack, screenAudioTrack] : screenTrack);
+      }
+    } catch (error) {
+      this.logger.error('media', 'Failed to publish screen share', error);
+      await this.stopScreenShare();
+      throw error;
+    }
+
+    this.logger.info('media', '🖥️ Screen sharing started', { withAudio: Boolean(screenAudioTrack) });
+    this.localVideoTrack?.stop();
+    this.playLocalVideo();
+    this.emit('video-source-changed', 'screen');
+  }
+
+  /**
+   * Stop sharing the screen and go back to the camera
+   */
+  async stopScreenShare(): Promise<void> {
+    if (!this.localScreenTrack) return;
+
+    const screenTracks = [this.localScreenTrack, this.localScreenAudioTrack].filter(
+      (track): track is ILocalVideoTrack | ILocalAudioTrack => track !== null
+    );
+    this.closeScreenTracks();
+
+    if (this.client && this.isPublisher && this.joinedUid !== null) {
+      const publishedScreenTracks = screenTracks.filter(track => this.client?.localTracks.includes(track));
+      if (publishedScreenTracks.length > 0) {
+        await this.client.unpublish(publishedScreenTracks);
+      }
+      if (this.localVideoTrack?.enabled) {
+        await this.ensurePublished(this.localVideoTrack);
       }
     }
+
+    this.logger.info('media', '📹 Screen sharing stopped, back to camera');
+    this.playLocalVideo();
+    this.emit('video-source-changed', 'camera');
+  }
+
+  private handleScreenTrackEnded = () => {
+    this.logger.info('media', '🖥️ Screen sharing ended from the browser');
+    this.stopScreenShare().catch(error => this.logger.error('media', 'Failed to stop screen sharing', error));
+  };
+
+  private closeScreenTracks() {
+    if (this.localScreenTrack) {
+      this.localScreenTrack.off('track-ended', this.handleScreenTrackEnded);
+      this.localScreenTrack.stop();
+      this.localScreenTrack.close();
+      this.localScreenTrack = null;
+    }
+
+    if (this.localScreenAudioTrack) {
+      this.localScreenAudioTrack.close();
+      this.localScreenAudioTrack = null;
+    }
+  }
+
+  // Shows the screen share while sharing, otherwise the camera
+  private playLocalVideo() {
+    const localPlayerContainer = document.getElementById('local-player');
+    const videoTrack = this.localScreenTrack ?? this.localVideoTrack;
+    if (localPlayerContainer && videoTrack) {
+      videoTrack.play(localPlayerContainer);
+    }
+  }
+
+  private closeLocalTracks() {
+    this.closeScreenTracks();
+
+    if (this.deviceEventSource) {
+      this.deviceEventSource.off('camera-changed', this.handleCameraChanged);
+      this.deviceEventSource.off('microphone-changed', this.handleMicrophoneChanged);
+      this.deviceEventSource = null;
+    }
+
+    if (this.localVideoTrack) {
+      this.localVideoTrack.stop();
+      this.localVideoTrack.close();
+      this.localVideoTrack = null;
+    }
+
+    if (this.localAudioTrack) {
+      this.localAudioTrack.stop();
+      this.localAudioTrack.close();
+      this.localAudioTrack = null;
+    }
+  }
+
+  // The SDK refuses to publish disabled (muted) tracks. The screen replaces the camera while sharing.
+  private getPublishableTracks(): ILocalTrack[] {
+    const tracks: Array<ILocalTrack | null> = [
+      this.localAudioTrack,
+      this.localScreenTrack ?? this.localVideoTrack,
+      this.localScreenAudioTrack
+    ];
+    return tracks.filter((track): track is ILocalTrack => track !== null && track.enabled);
+  }
+
+  // Tracks muted before going live were never published, so publish them on unmute
+  private async ensurePublished(track: ILocalTrack): Promise<void> {
+    if (!this.client || !this.isPublisher || this.joinedUid === null) return;
+
+    if (!this.client.localTracks.includes(track)) {
+      await this.client.publish(track);
+    }
   }
 
   private async createAndPublishTracks(): Promise<void> {
     if (!this.client || !this.isPublisher) return;
 
     try {
-      const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+      await this.createLocalTracks();
 
-      // Create local audio and video tracks
-      this.localAudioTrack = await AgoraRTC.createMicrophoneAudioTrack();
-      this.localVideoTrack = await AgoraRTC.createCameraVideoTrack();
+      // Send a low stream alongside the high one so viewers can pick per tile
+      await this.client.enableDualStream();
 
       // Publish tracks
-      await this.client.publish([this.localAudioTrack, this.localVideoTrack]);
-      console.log('Local tracks published successfully');
-
-      // Play local video track
-      const localPlayerContainer = document.getElementById('local-player');
-      if (localPlayerContainer && this.localVideoTrack) {
-        this.localVideoTrack.play(localPlayerContainer);
+      const tracks = this.getPublishableTracks();
+      if (tracks.length > 0) {
+        await this.client.publish(tracks);
       }
+      this.logger.info('media', 'Local tracks published successfully');
 
+      this.playLocalVideo();
     } catch (error) {
-      console.error('Failed to create and publish tracks:', error);
+      this.logger.error('media', 'Failed to create and publish tracks', error);
       throw error;
     }
   }
@@ -269,54 +1161,257 @@ export class AgoraClient {
   async leave(): Promise<void> {
     if (!this.client) return;
 
+    this.clearTokenRenewalTimer();
+    this.clearRejoinTimer();
+    this.isRenewingToken = false;
+    this.clearChat();
+
     try {
       // Stop and close local tracks
-      if (this.localVideoTrack) {
-        this.localVideoTrack.stop();
-        this.localVideoTrack.close();
-        this.localVideoTrack = null;
-      }
-
-      if (this.localAudioTrack) {
-        this.localAudioTrack.stop();
-        this.localAudioTrack.close();
-        this.localAudioTrack = null;
-      }
+      this.closeLocalTracks();
 
       // Leave the channel
       await this.client.leave();
       this.isPublisher = false;
-      console.log('Left channel');
+      this.joinedUid = null;
+      this.remoteStreamTypes.clear();
+      this.networkQuality = null;
+      this.logger.info('connection', 'Left channel');
     } catch (error) {
-      console.error('Failed to leave channel:', error);
+      this.logger.error('connection', 'Failed to leave channel', error);
       throw error;
+    } finally {
+      this.stopWatchingAutoplay();
     }
   }
 
+  /**
+   * Send a chat message to everyone in the channel. Long messages are split into
+   * several data stream packets and all packets are paced through one queue.
+   * Resolves with the sent message once every packet has gone out.
+   */
+  async sendChatMessage(text: string, kind: ChatMessageKind = 'text'): Promise<ChatMessage> {
+    if (!this.client || this.joinedUid === null) {
+      throw new Error('Join the channel before sending chat messages');
+    }
+
+    const message = createChatMessage(this.joinedUid, kind, text);
+    const packets = encodeChatMessage(message);
+
+    await new Promise<void>((resolve, reject) => {
+      this.chatQueue.push({ packets, resolve, reject });
+      void this.drainChatQueue();
+    });
+    return message;
+  }
+
+  private async drainChatQueue(): Promise<void> {
+    if (this.isSendingChat) return;
+    this.isSendingChat = true;
+
+    try {
+      while (this.chatQueue.length > 0) {
+        const entry = this.chatQueue[0];
+        try {
+          for (const packet of entry.packets) {
+            if (!this.client) throw new Error('Left the channel before the message was sent');
+            await (this.client as DataStreamClient).sendStreamMessage(packet, true);
+            await new Promise(resolve => setTimeout(resolve, CHAT_SEND_INTERVAL_MS));
+          }
+          entry.resolve();
+        } catch (error) {
+          this.logger.error('connection', '❌ Failed to send chat message', error);
+          entry.reject(error instanceof Error ? error : new Error('Failed to send chat message'));
+        }
+        // leave() may already have emptied the queue
+        if (this.chatQueue[0] === entry) {
+          this.chatQueue.shift();
+        }
+      }
+    } finally {
+      this.isSendingChat = false;
+    }
+  }
+
+  private clearChat() {
+    const pending = this.chatQueue.splice(0);
+    pending.forEach(entry => entry.reject(new Error('Left the channel before the message was sent')));
+    this.chatAssembler.clear();
+  }
+
+  /**
+   * Capture the frame currently shown for a remote user. The user's video must be playing.
+   */
+  async captureSnapshot(uid: UID, options: SnapshotOptions = {}): Promise<Blob> {
+    const user = this.client?.remoteUsers.find(remoteUser => remoteUser.uid === uid);
+    if (!user?.videoTrack) {
+      throw new Error(`User ${uid} has no video to capture`);
+    }
+
+    const frame = user.videoTrack.getCurrentFrameData();
+    if (!frame || frame.width === 0 || frame.height === 0) {
+      throw new Error(`No video frame has been rendered for user ${uid} yet`);
+    }
+
+    const watermark = options.watermark
+      ? `${new Date().toISOString()} · ${this.config.channel} · uid ${uid}`
+      : null;
+    return renderSnapshot(frame, watermark, options.format, options.quality);
+  }
+
+  getPlayerId(uid: UID): string {
+    return `${this.config.playerIdPrefix}${uid}`;
+  }
+
+  /**
+   * Apply the master and per-user settings to a user's audio track.
+   * Returns whether the track should be audible.
+   */
+  private applyRemoteAudio(user: IAgoraRTCRemoteUser): boolean {
+    const track = user.audioTrack;
+    if (!track) return false;
+
+    const settings = this.getUserAudio(user.uid);
+    const masterVolume = this.config.remoteAudioVolume ?? 100;
+    track.setVolume(Math.round(settings.volume * masterVolume / 100));
+
+    const shouldPlay = !!this.config.playRemoteAudio && !settings.muted;
+    if (shouldPlay && !track.isPlaying) {
+      track.play();
+    } else if (!shouldPlay && track.isPlaying) {
+      track.stop();
+    }
+    return shouldPlay;
+  }
+
+  /**
+   * Master mute: start or stop playing every remote user's audio. Tracks stay subscribed, so
+   * recordings and audio levels are unaffected. Users muted individually stay muted.
+   */
+  setRemoteAudioPlayback(enabled: boolean): void {
+    this.config.playRemoteAudio = enabled;
+    this.getRemoteUsers().forEach(user => this.applyRemoteAudio(user));
+  }
+
+  /**
+   * Set the master playback volume (0-100), including for users who publish later
+   */
+  setRemoteAudioVolume(volume: number): void {
+    this.config.remoteAudioVolume = Math.min(100, Math.max(0, Math.round(volume)));
+    this.getRemoteUsers().forEach(user => this.applyRemoteAudio(user));
+  }
+
+  getUserAudio(uid: UID): RemoteUserAudio {
+    return this.remoteUserAudio.get(String(uid)) ?? DEFAULT_REMOTE_USER_AUDIO;
+  }
+
+  /**
+   * Change one user's volume (0-100) or mute them. Applies now if they publish audio,
+   * otherwise as soon as they do.
+   */
+  setUserAudio(uid: UID, settings: Partial<RemoteUserAudio>): void {
+    const current = this.getUserAudio(uid);
+    const next: RemoteUserAudio = {
+      volume: Math.min(100, Math.max(0, Math.round(settings.volume ?? current.volume))),
+      muted: settings.muted ?? current.muted
+    };
+    this.remoteUserAudio.set(String(uid), next);
+
+    const user = this.getRemoteUsers().find(remoteUser => String(remoteUser.uid) === String(uid));
+    if (user) {
+      this.applyRemoteAudio(user);
+    }
+  }
+
+  getAutoplayBlocked(): boolean {
+    return this.isAutoplayBlocked;
+  }
+
+  /**
+   * Restart playback after an autoplay-blocked event. Must be called from a user gesture
+   * such as a click, which is what lifts the browser's block.
+   */
+  resumeAudioPlayback(): void {
+    this.isAutoplayBlocked = false;
+    this.getRemoteUsers().forEach(user => {
+      if (this.applyRemoteAudio(user)) {
+        // play() again inside the gesture; tracks that were blocked still report isPlaying
+        user.audioTrack?.play();
+      }
+    });
+    this.logger.info('media', '🔊 Playback resumed after a user gesture');
+  }
+
   getRemoteUsers(): IAgoraRTCRemoteUser[] {
     return this.client?.remoteUsers || [];
   }
 
+  /**
+   * The uid the channel was joined with, including one assigned by Agora; null while not joined
+   */
+  getJoinedUid(): UID | null {
+    return this.joinedUid;
+  }
+
   isConnected(): boolean {
     return this.client?.connectionState === 'CONNECTED';
   }
 
-  getLocalTracks(): { video: ICameraVideoTrack | null; audio: IMicrophoneAudioTrack | null } {
+  /**
+   * Logs, connection history and browser capabilities for a bug report, with secrets redacted
+   */
+  async collectDiagnostics(): Promise<DiagnosticsBundle> {
+    return collectDiagnostics({
+      logger: this.logger,
+      session: {
+        appId: this.config.appId,
+        channel: this.config.channel,
+        uid: this.joinedUid ?? this.config.uid ?? null,
+        role: this.role,
+        mode: this.config.mode,
+        codec: this.config.codec,
+        connectionState: this.client?.connectionState ?? null
+      },
+      connectionHistory: this.connectionHistory
+    });
+  }
+
+  /**
+   * The tracks currently feeding the channel: `video` is the screen track while sharing.
+   * `screenAudio` is set only when the screen share includes audio.
+   */
+  getLocalTracks(): {
+    video: ICameraVideoTrack | ILocalVideoTrack | null;
+    audio: IMicrophoneAudioTrack | null;
+    screenAudio: ILocalAudioTrack | null;
+    source: VideoSource;
+  } {
     return {
-      video: this.localVideoTrack,
-      audio: this.localAudioTrack
+      video: this.localScreenTrack ?? this.localVideoTrack,
+      audio: this.localAudioTrack,
+      screenAudio: this.localScreenAudioTrack,
+      source: this.getVideoSource()
     };
   }
 
   async muteLocalAudio(mute: boolean = true): Promise<void> {
     if (this.localAudioTrack) {
       await this.localAudioTrack.setEnabled(!mute);
+      if (!mute) {
+        await this.ensurePublished(this.localAudioTrack);
+      }
     }
   }
 
   async muteLocalVideo(mute: boolean = true): Promise<void> {
     if (this.localVideoTrack) {
       await this.localVideoTrack.setEnabled(!mute);
+      // The camera stays unpublished while the screen is shared
+      if (!mute && !this.localScreenTrack) {
+        await this.ensurePublished(this.localVideoTrack);
+        // Make sure the self-view shows the camera again
+        this.playLocalVideo();
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+// Errors thrown by AgoraClient. Codes are stable, so the UI can pick remediation by code
+// instead of matching on messages.
+
+export type AgoraConfigErrorCode = 'invalid-app-id' | 'invalid-channel' | 'invalid-uid';
+export type AgoraTokenErrorCode = 'invalid-token' | 'token-expired' | 'token-unavailable';
+export type AgoraConnectionErrorCode = 'network' | 'uid-conflict' | 'aborted';
+export type AgoraDeviceErrorCode = 'permission-denied' | 'device-not-found' | 'device-unavailable' | 'not-supported';
+
+export type AgoraClientErrorCode =
+  | AgoraConfigErrorCode
+  | AgoraTokenErrorCode
+  | AgoraConnectionErrorCode
+  | AgoraDeviceErrorCode
+  | 'unknown';
+
+export interface AgoraClientErrorOptions {
+  // The SDK or provider error this one was made from
+  cause?: unknown;
+  // Overrides the code's default, e.g. an expired token that was supplied by the user
+  retryable?: boolean;
+}
+
+// Whether trying the same thing again can succeed without the user changing anything
+const RETRYABLE: Record<AgoraClientErrorCode, boolean> = {
+  'invalid-app-id': false,
+  'invalid-channel': false,
+  'invalid-uid': false,
+  'invalid-token': false,
+  // A retry fetches a fresh token from the token provider
+  'token-expired': true,
+  'token-unavailable': true,
+  'network': true,
+  'uid-conflict': false,
+  'aborted': true,
+  'permission-denied': false,
+  'device-not-found': false,
+  'device-unavailable': true,
+  'not-supported': false,
+  'unknown': true
+};
+
+export class AgoraClientError extends Error {
+  readonly retryable: boolean;
+
+  constructor(public code: AgoraClientErrorCode, message: string, options: AgoraClientErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AgoraClientError';
+    this.retryable = options.retryable ?? RETRYABLE[code];
+  }
+}
+
+/**
+ * App ID, channel or uid that can't be used; fix the input and try again
+ */
+export class AgoraConfigError extends AgoraClientError {
+  constructor(public code: AgoraConfigErrorCode, message: string, options?: AgoraClientErrorOptions) {
+    super(code, message, options);
+    this.name = 'AgoraConfigError';
+  }
+}
+
+export class AgoraTokenError extends AgoraClientError {
+  constructor(public code: AgoraTokenErrorCode, message: string, options?: AgoraClientErrorOptions) {
+    super(code, message, options);
+    this.name = 'AgoraTokenError';
+  }
+}
+
+export class AgoraConnectionError extends AgoraClientError {
+  constructor(public code: AgoraConnectionErrorCode, message: string, options?: AgoraClientErrorOptions) {
+    super(code, message, options);
+    this.name = 'AgoraConnectionError';
+  }
+}
+
+/**
+ * Camera, microphone or screen capture failures
+ */
+export class AgoraDeviceError extends AgoraClientError {
+  constructor(public code: AgoraDeviceErrorCode, message: string, options?: AgoraClientErrorOptions) {
+    super(code, message, options);
+    this.name = 'AgoraDeviceError';
+  }
+}
+
+const CONFIG_CODES: AgoraClientErrorCode[] = ['invalid-app-id', 'invalid-channel', 'invalid-uid'];
+const TOKEN_CODES: AgoraClientErrorCode[] = ['invalid-token', 'token-expired', 'token-unavailable'];
+const CONNECTION_CODES: AgoraClientErrorCode[] = ['network', 'uid-conflict', 'aborted'];
+const DEVICE_CODES: AgoraClientErrorCode[] = ['permission-denied', 'device-not-found', 'device-unavailable', 'not-supported'];
+
+/**
+ * Build the error subclass that matches a code
+ */
+export function createAgoraClientError(
+  code: AgoraClientErrorCode,
+  message: string,
+  options?: AgoraClientErrorOptions
+): AgoraClientError {
+  if (CONFIG_CODES.includes(code)) return new AgoraConfigError(code as AgoraConfigErrorCode, message, options);
+  if (TOKEN_CODES.includes(code)) return new AgoraTokenError(code as AgoraTokenErrorCode, message, options);
+  if (CONNECTION_CODES.includes(code)) return new AgoraConnectionError(code as AgoraConnectionErrorCode, message, options);
+  if (DEVICE_CODES.includes(code)) return new AgoraDeviceError(code as AgoraDeviceErrorCode, message, options);
+  return new AgoraClientError(code, message, options);
+}
+
+// CAN_NOT_GET_GATEWAY_SERVER covers several causes, which only its message tells apart
+function classifyGatewayError(message: string): [AgoraClientErrorCode, string] {
+  const lower = message.toLowerCase();
+  if (lower.includes('vendor key') || lower.includes('appid') || lower.includes('static key')) {
+    return ['invalid-app-id', 'Agora rejected the App ID. Please check your App ID from Agora Console.'];
+  }
+  if (lower.includes('expired')) {
+    return ['token-expired', 'Token has expired. Please generate a new token.'];
+  }
+  if (lower.includes('token')) {
+    return ['invalid-token', 'Invalid token. Please check your token or generate a new one.'];
+  }
+  return ['network', 'Could not reach Agora. Please check your network connection.'];
+}
+
+/**
+ * Map an SDK error code and message to our code and a readable message
+ */
+function classifySdkError(sdkCode: string, message: string): [AgoraClientErrorCode, string] {
+  switch (sdkCode) {
+    case 'CAN_NOT_GET_GATEWAY_SERVER':
+      return classifyGatewayError(message);
+    case 'INVALID_VENDOR_KEY':
+      return ['invalid-app-id', 'Invalid App ID. Please check your App ID from Agora Console.'];
+    case 'INVALID_TOKEN':
+      return ['invalid-token', 'Invalid token. Please check your token or generate a new one.'];
+    case 'TOKEN_EXPIRED':
+    case 'TOKEN_EXPIRE':
+    case 'DYNAMIC_KEY_TIMEOUT':
+      return ['token-expired', 'Token has expired. Please generate a new token.'];
+    case 'INVALID_UINT_UID_FROM_STRING_UID':
+      return ['invalid-uid', 'This user account could not be mapped to a uid.'];
+    case 'UID_CONFLICT':
+      return ['uid-conflict', 'Another user in the channel is already using this uid.'];
+    case 'NETWORK_ERROR':
+    case 'NETWORK_TIMEOUT':
+    case 'NETWORK_RESPONSE_ERROR':
+    case 'CAN_NOT_GET_PROXY_SERVER':
+    case 'VOID_GATEWAY_ADDRESS':
+    case 'WS_DISCONNECT':
+    case 'WS_ERR':
+    case 'ICE_FAILED':
+    case 'TIMEOUT':
+    case 'API_INVOKE_TIMEOUT':
+      return ['network', 'Could not reach Agora. Please check your network connection.'];
+    case 'OPERATION_ABORTED':
+    case 'WS_ABORT':
+      return ['aborted', 'The operation was cancelled before it finished.'];
+    case 'PERMISSION_DENIED':
+      return ['permission-denied', 'Camera or microphone access was denied.'];
+    case 'DEVICE_NOT_FOUND':
+    case 'ENUMERATE_DEVICES_FAILED':
+      return ['device-not-found', 'No camera or microphone was found.'];
+    case 'NOT_READABLE':
+    case 'CONSTRAINT_NOT_SATISFIED':
+      return ['device-unavailable', 'The camera or microphone is in use by another application or can\'t provide the requested quality.'];
+    case 'NOT_SUPPORTED':
+    case 'WEB_SECURITY_RESTRICT':
+      return ['not-supported', 'This browser does not support this feature, or the page is not served over HTTPS.'];
+    default:
+      return ['unknown', message || sdkCode];
+  }
+}
+
+/**
+ * Wrap anything thrown by the SDK or our own code in an AgoraClientError, keeping the
+ * original as its cause. AgoraClientErrors are returned unchanged.
+ */
+export function toAgoraClientError(error: unknown, fallbackMessage: string = 'Unknown error'): AgoraClientError {
+  if (error instanceof AgoraClientError) {
+    return error;
+  }
+
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  const errorMessage = typeof message === 'string' ? message : '';
+
+  if (typeof code === 'string' && code) {
+    const [clientCode, clientMessage] = classifySdkError(code, errorMessage);
+    return createAgoraClientError(clientCode, clientMessage, { cause: error });
+  }
+
+  return new AgoraClientError('unknown', errorMessage || fallbackMessage, { cause: error });
+}
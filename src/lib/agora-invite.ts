@@ -0,0 +1,196 @@
+// Server-only: invites are encrypted with AGORA_INVITE_SECRET, which must not reach the browser.
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, timingSafeEqual } from 'crypto';
+import type { AgoraCodec, AgoraMode, AudienceLatency } from './agora-config';
+
+// Version 1 invites were signed but readable; they are no longer accepted
+const INVITE_VERSION = 2;
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export interface InvitePayload {
+  appId: string;
+  channel: string;
+  role: 'publisher' | 'audience';
+  // Numeric uid or string account; omitted to let Agora assign one
+  uid?: string | number;
+  mode?: AgoraMode;
+  codec?: AgoraCodec;
+  latency?: AudienceLatency;
+  // Unix time in seconds
+  expiresAt: number;
+  maxUses?: number;
+}
+
+export interface SealedInvitePayload extends InvitePayload {
+  v: number;
+  // An invite is shared as a link; a session is handed to whoever redeemed it, for token renewal
+  kind: 'invite' | 'session';
+  // Random id, so identical invites can be counted separately
+  id: string;
+}
+
+export type InviteErrorCode = 'not-configured' | 'invalid' | 'expired' | 'exhausted';
+
+export const INVITE_ERROR_STATUS: Record<InviteErrorCode, number> = {
+  'not-configured': 503,
+  'invalid': 400,
+  'expired': 410,
+  'exhausted': 410
+};
+
+export class InviteError extends Error {
+  constructor(public code: InviteErrorCode, message: string) {
+    super(message);
+    this.name = 'InviteError';
+  }
+}
+
+// Redemption counts per invite id. They live in this server instance's memory only, so
+// max uses is best-effort on multi-instance or serverless deployments.
+const inviteUses = new Map<string, { uses: number; expiresAt: number }>();
+
+function getInviteSecret(): string {
+  const secret = process.env.AGORA_INVITE_SECRET;
+  if (!secret) {
+    throw new InviteError('not-configured', 'Invites are not configured on this server');
+  }
+  return secret;
+}
+
+function getInviteKey(): Buffer {
+  return createHash('sha256').update(getInviteSecret()).digest();
+}
+
+/**
+ * Encrypt a payload into one opaque base64url string: IV, GCM auth tag, then ciphertext
+ */
+function seal(payload: SealedInvitePayload): string {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(CIPHER, getInviteKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function unseal(value: string, kind: SealedInvitePayload['kind']): SealedInvitePayload {
+  const key = getInviteKey();
+  const data = Buffer.from(value.trim(), 'base64url');
+  if (data.length <= IV_LENGTH + AUTH_TAG_LENGTH) {
+    throw new InviteError('invalid', 'This invite link is malformed');
+  }
+
+  let payload: SealedInvitePayload;
+  try {
+    const decipher = createDecipheriv(CIPHER, key, data.subarray(0, IV_LENGTH));
+    decipher.setAuthTag(data.subarray(IV_LENGTH, IV_LENGTH + AUTH_TAG_LENGTH));
+    const plaintext = Buffer.concat([decipher.update(data.subarray(IV_LENGTH + AUTH_TAG_LENGTH)), decipher.final()]);
+    payload = JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    throw new InviteError('invalid', 'This invite link is invalid or has been tampered with');
+  }
+
+  if (payload.v !== INVITE_VERSION) {
+    throw new InviteError('invalid', 'This invite link was created by an incompatible version');
+  }
+  // A session can't be shared as a link, and a link can't stand in for a session
+  if (payload.kind !== kind) {
+    throw new InviteError('invalid', 'This invite link is invalid or has been tampered with');
+  }
+
+  if (payload.expiresAt * 1000 <= Date.now()) {
+    throw new InviteError('expired', `This invite expired on ${new Date(payload.expiresAt * 1000).toISOString()}`);
+  }
+
+  return payload;
+}
+
+/**
+ * Mint an opaque invite string. The payload is encrypted, so the link reveals neither
+ * the App ID nor the channel.
+ */
+export function createInvite(payload: InvitePayload): string {
+  return seal({
+    ...payload,
+    v: INVITE_VERSION,
+    kind: 'invite',
+    id: randomBytes(9).toString('base64url')
+  });
+}
+
+/**
+ * Check an invite and its expiry without counting a use
+ */
+export function verifyInvite(invite: string): SealedInvitePayload {
+  return unseal(invite, 'invite');
+}
+
+/**
+ * Verify an invite and count one use against its limit
+ */
+export function redeemInvite(invite: string): SealedInvitePayload {
+  const payload = verifyInvite(invite);
+
+  // Forget invites that can no longer be redeemed anyway
+  const now = Date.now();
+  inviteUses.forEach((entry, id) => {
+    if (entry.expiresAt * 1000 <= now) {
+      inviteUses.delete(id);
+    }
+  });
+
+  if (payload.maxUses !== undefined) {
+    const entry = inviteUses.get(payload.id) ?? { uses: 0, expiresAt: payload.expiresAt };
+    if (entry.uses >= payload.maxUses) {
+      throw new InviteError('exhausted', 'This invite has already been used the maximum number of times');
+    }
+    entry.uses++;
+    inviteUses.set(payload.id, entry);
+  }
+
+  return payload;
+}
+
+/**
+ * Credential handed out on redemption so the player can renew its token and rejoin
+ * without redeeming the invite again. Expires with the invite.
+ */
+export function createInviteSession(payload: SealedInvitePayload): string {
+  return seal({ ...payload, kind: 'session' });
+}
+
+export function verifyInviteSession(session: string): SealedInvitePayload {
+  return unseal(session, 'session');
+}
+
+/**
+ * Whether a channel is reserved for invites by the comma-separated AGORA_INVITE_CHANNELS.
+ * Entries ending in `*` match by prefix, e.g. `kiosk-*`. /api/agora/token only signs tokens
+ * for these channels for invite sessions and admins; every other channel stays open.
+ */
+export function isInviteChannel(channel: string): boolean {
+  const name = channel.trim();
+  if (!name) return false;
+
+  return (process.env.AGORA_INVITE_CHANNELS ?? '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .some(entry => entry.endsWith('*') ? name.startsWith(entry.slice(0, -1)) : name === entry);
+}
+
+/**
+ * Whether an Authorization header carries AGORA_INVITE_ADMIN_TOKEN. Always false when
+ * no admin token is configured.
+ */
+export function hasInviteAdminAuthorization(authorization: string | null): boolean {
+  const adminToken = process.env.AGORA_INVITE_ADMIN_TOKEN;
+  if (!adminToken || !authorization) {
+    return false;
+  }
+
+  const expected = Buffer.from(`Bearer ${adminToken}`);
+  const actual = Buffer.from(authorization);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
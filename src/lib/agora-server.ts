@@ -0,0 +1,62 @@
+// Server-only helpers. Never import this module from client components:
+// it reads App Certificates that must not reach the browser.
+
+import { RtcTokenBuilder } from 'agora-token';
+
+/**
+ * Resolve the App Certificate for an App ID from server-side configuration.
+ *
+ * Lookup order:
+ * 1. `AGORA_APP_CERTIFICATE_<APP_ID>` (App ID upper-cased), for deployments serving several apps
+ * 2. `AGORA_APP_CERTIFICATE`, when `AGORA_APP_ID` is unset or matches the requested App ID
+ *
+ * On Cloudflare these are set with `wrangler secret put`; locally via `.env.local`.
+ */
+export function resolveAppCertificate(appId: string): string | null {
+  const normalizedAppId = appId.trim();
+  if (!normalizedAppId) {
+    return null;
+  }
+
+  const perAppCertificate = process.env[`AGORA_APP_CERTIFICATE_${normalizedAppId.toUpperCase()}`];
+  if (perAppCertificate) {
+    return perAppCertificate;
+  }
+
+  const defaultAppId = process.env.AGORA_APP_ID;
+  const defaultCertificate = process.env.AGORA_APP_CERTIFICATE;
+  if (defaultCertificate && (!defaultAppId || defaultAppId.toLowerCase() === normalizedAppId.toLowerCase())) {
+    return defaultCertificate;
+  }
+
+  return null;
+}
+
+// Tells callers which identity a token was signed for
+export type UidType = 'uid' | 'account';
+
+/**
+ * Sign an RTC token for a normalized uid (see normalizeAgoraUid): numbers get a uid token,
+ * strings a user-account token, and null a uid-0 token that any numeric uid can join with.
+ */
+export function buildRtcToken(
+  appId: string,
+  appCertificate: string,
+  channelName: string,
+  uid: string | number | null,
+  role: number,
+  expireTimeInSeconds: number
+): { token: string; uidType: UidType } {
+  // AccessToken2 expiries are relative to now, in seconds
+  if (typeof uid === 'string') {
+    return {
+      token: RtcTokenBuilder.buildTokenWithUserAccount(appId, appCertificate, channelName, uid, role, expireTimeInSeconds, expireTimeInSeconds),
+      uidType: 'account'
+    };
+  }
+
+  return {
+    token: RtcTokenBuilder.buildTokenWithUid(appId, appCertificate, channelName, uid ?? 0, role, expireTimeInSeconds, expireTimeInSeconds),
+    uidType: 'uid'
+  };
+}
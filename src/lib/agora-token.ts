@@ -0,0 +1,309 @@
+// Decoder for AccessToken (006) and AccessToken2 (007) tokens. Works in the browser and on
+// the server; it reads tokens but cannot verify signatures without the App Certificate.
+
+export type AgoraTokenVersion = '006' | '007';
+
+export type RtcPrivilege = 'joinChannel' | 'publishAudioStream' | 'publishVideoStream' | 'publishDataStream';
+
+export interface ParsedAgoraToken {
+  version: AgoraTokenVersion;
+  appId: string;
+  // Unix seconds; 006 tokens don't record when they were issued
+  issuedAt: number | null;
+  // Unix seconds: the earlier of the token and join-channel expiries, null if neither is set
+  expiresAt: number | null;
+  // 007 tokens carry the channel and uid in clear ('' uid means any); 006 only a CRC32 of each
+  channel: string | null;
+  uid: string | null;
+  channelCrc: number | null;
+  uidCrc: number | null;
+  // RTC privileges with their expiry in Unix seconds (null when they never expire)
+  privileges: Partial<Record<RtcPrivilege, number | null>>;
+  // Services present in a 007 token, e.g. rtc or rtm
+  services: string[];
+}
+
+export interface TokenExpectations {
+  appId?: string;
+  channel?: string;
+  // Normalized uid (see normalizeAgoraUid); null means the uid will be assigned by Agora
+  uid?: string | number | null;
+  // Unix seconds, defaults to now
+  now?: number;
+}
+
+const APP_ID_LENGTH = 32;
+
+const RTC_PRIVILEGES: Record<number, RtcPrivilege> = {
+  1: 'joinChannel',
+  2: 'publishAudioStream',
+  3: 'publishVideoStream',
+  4: 'publishDataStream'
+};
+
+const SERVICE_NAMES: Record<number, string> = {
+  1: 'rtc',
+  2: 'rtm',
+  4: 'fpa',
+  5: 'chat',
+  7: 'apaas'
+};
+
+// Little-endian reader matching the agora-token ByteBuf layout
+class ByteReader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  uint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, true);
+    this.offset += 2;
+    return value;
+  }
+
+  uint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, true);
+    this.offset += 4;
+    return value;
+  }
+
+  bytesField(): Uint8Array {
+    const length = this.uint16();
+    this.ensure(length);
+    const value = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return value;
+  }
+
+  string(): string {
+    return new TextDecoder().decode(this.bytesField());
+  }
+
+  uint32Map(): Map<number, number> {
+    const map = new Map<number, number>();
+    const count = this.uint16();
+    for (let i = 0; i < count; i++) {
+      const key = this.uint16();
+      map.set(key, this.uint32());
+    }
+    return map;
+  }
+
+  private ensure(length: number) {
+    if (this.offset + length > this.bytes.length) {
+      throw new Error('Token is truncated');
+    }
+  }
+}
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC32 of a string's UTF-8 bytes, as used by 006 tokens for the channel and uid
+ */
+export function crc32(value: string): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (const byte of new TextEncoder().encode(value)) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function decodeBase64(value: string): Uint8Array {
+  let binary: string;
+  try {
+    binary = atob(value);
+  } catch {
+    throw new Error('Token is not valid base64');
+  }
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  try {
+    const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    throw new Error('Token content could not be decompressed');
+  }
+}
+
+function toPrivileges(raw: Map<number, number>, toExpiry: (value: number) => number | null) {
+  const privileges: Partial<Record<RtcPrivilege, number | null>> = {};
+  raw.forEach((value, key) => {
+    const name = RTC_PRIVILEGES[key];
+    if (name) {
+      privileges[name] = toExpiry(value);
+    }
+  });
+  return privileges;
+}
+
+function earliest(...timestamps: Array<number | null | undefined>): number | null {
+  const defined = timestamps.filter((timestamp): timestamp is number => typeof timestamp === 'number');
+  return defined.length > 0 ? Math.min(...defined) : null;
+}
+
+function parseAccessToken(token: string): ParsedAgoraToken {
+  const appId = token.slice(3, 3 + APP_ID_LENGTH);
+  if (!/^[a-f0-9]{32}$/i.test(appId)) {
+    throw new Error('Token does not contain a valid App ID');
+  }
+
+  const content = new ByteReader(decodeBase64(token.slice(3 + APP_ID_LENGTH)));
+  content.bytesField(); // signature
+  const channelCrc = content.uint32();
+  const uidCrc = content.uint32();
+
+  const message = new ByteReader(content.bytesField());
+  message.uint32(); // salt
+  message.uint32(); // signature validity, not the privilege expiry
+  // 006 privilege expiries are absolute; 0 means no expiry
+  const privileges = toPrivileges(message.uint32Map(), value => (value === 0 ? null : value));
+
+  return {
+    version: '006',
+    appId,
+    issuedAt: null,
+    expiresAt: privileges.joinChannel ?? null,
+    channel: null,
+    uid: null,
+    channelCrc,
+    uidCrc,
+    privileges,
+    services: ['rtc']
+  };
+}
+
+async function parseAccessToken2(token: string): Promise<ParsedAgoraToken> {
+  const reader = new ByteReader(await inflate(decodeBase64(token.slice(3))));
+  reader.bytesField(); // signature
+  const appId = reader.string();
+  const issuedAt = reader.uint32();
+  const expire = reader.uint32();
+  reader.uint32(); // salt
+  const serviceCount = reader.uint16();
+
+  // 007 expiries are relative to the issue time; 0 leaves the privilege bounded by the token only
+  const toExpiry = (value: number) => (value === 0 ? null : issuedAt + value);
+
+  const services: string[] = [];
+  let channel: string | null = null;
+  let uid: string | null = null;
+  let privileges: Partial<Record<RtcPrivilege, number | null>> = {};
+
+  for (let i = 0; i < serviceCount; i++) {
+    const type = reader.uint16();
+    const servicePrivileges = reader.uint32Map();
+    services.push(SERVICE_NAMES[type] ?? `unknown-${type}`);
+
+    switch (type) {
+      case 1:
+        channel = reader.string();
+        uid = reader.string();
+        privileges = toPrivileges(servicePrivileges, toExpiry);
+        break;
+      case 2:
+      case 5:
+        reader.string(); // user id
+        break;
+      case 4:
+        break;
+      case 7:
+        reader.string(); // room uuid
+        reader.string(); // user uuid
+        reader.uint16(); // role
+        break;
+      default:
+        // The layout of unknown services is unknown, so nothing after them can be read
+        throw new Error(`Token contains an unsupported service type ${type}`);
+    }
+  }
+
+  return {
+    version: '007',
+    appId,
+    issuedAt,
+    expiresAt: earliest(toExpiry(expire), privileges.joinChannel),
+    channel,
+    uid,
+    channelCrc: null,
+    uidCrc: null,
+    privileges,
+    services
+  };
+}
+
+/**
+ * Decode a 006 or 007 token. Throws when the token is malformed.
+ */
+export async function parseAgoraToken(token: string): Promise<ParsedAgoraToken> {
+  const trimmed = token.trim();
+  if (trimmed.startsWith('007')) {
+    return parseAccessToken2(trimmed);
+  }
+  if (trimmed.startsWith('006')) {
+    return parseAccessToken(trimmed);
+  }
+  throw new Error('Unsupported token version. Expected a 006 or 007 token.');
+}
+
+/**
+ * Reasons a token can't be used for the expected App ID, channel and uid; empty when it fits
+ */
+export function getTokenProblems(token: ParsedAgoraToken, expected: TokenExpectations): string[] {
+  const problems: string[] = [];
+  const now = expected.now ?? Math.floor(Date.now() / 1000);
+
+  if (expected.appId && token.appId.toLowerCase() !== expected.appId.trim().toLowerCase()) {
+    problems.push(`Token was issued for App ID ${token.appId}`);
+  }
+
+  if (token.expiresAt !== null && token.expiresAt <= now) {
+    problems.push(`Token expired at ${new Date(token.expiresAt * 1000).toISOString()}`);
+  }
+
+  if (token.version === '007' && !token.services.includes('rtc')) {
+    problems.push('Token has no RTC privileges');
+  }
+
+  if (expected.channel !== undefined) {
+    const channel = expected.channel.trim();
+    const channelMatches = token.version === '007' ? token.channel === channel : token.channelCrc === crc32(channel);
+    if (!channelMatches) {
+      problems.push(token.channel !== null ? `Token is for channel "${token.channel}"` : 'Token is for a different channel');
+    }
+  }
+
+  if (expected.uid !== undefined) {
+    const uid = expected.uid === null ? '' : String(expected.uid);
+    // A token for uid 0 ('') accepts any uid; otherwise it must be an exact match
+    const tokenUid = token.version === '007' ? token.uid : null;
+    const uidMatches = token.version === '007'
+      ? tokenUid === '' || tokenUid === uid
+      : token.uidCrc === 0 || token.uidCrc === crc32(uid);
+    if (!uidMatches) {
+      problems.push(tokenUid !== null
+        ? `Token is for ${/^\d+$/.test(tokenUid) ? 'uid' : 'account'} "${tokenUid}"`
+        : 'Token is for a different uid');
+    }
+  }
+
+  return problems;
+}
@@ -1,3 +1,5 @@
+import { defaultLogger } from './logger';
+
 // Base URL for Agora token server (can be configured via environment)
 const BASE_URL = process.env.NEXT_PUBLIC_AGORA_TOKEN_SERVER_URL || 'https://webdemo-for-agora-io.agora.io';
 
@@ -5,7 +7,6 @@ interface TokenConfig {
   uid: string | number;
   channel: string;
   appid?: string;
-  certificate?: string;
 }
 
 interface TokenResponseData {
@@ -32,14 +33,12 @@ function generateUUID(): string {
 function getOptionsFromLocal() {
   if (typeof window === 'undefined') {
     return {
-      appid: process.env.NEXT_PUBLIC_AGORA_APP_ID || '',
-      certificate: process.env.NEXT_PUBLIC_AGORA_APP_CERTIFICATE || ''
+      appid: process.env.NEXT_PUBLIC_AGORA_APP_ID || ''
     };
   }
 
   return {
-    appid: localStorage.getItem('agora_app_id') || process.env.NEXT_PUBLIC_AGORA_APP_ID || '',
-    certificate: localStorage.getItem('agora_app_certificate') || process.env.NEXT_PUBLIC_AGORA_APP_CERTIFICATE || ''
+    appid: localStorage.getItem('agora_app_id') || process.env.NEXT_PUBLIC_AGORA_APP_ID || ''
   };
 }
 
@@ -58,46 +57,29 @@ function getEncryptFromUrl() {
 
 /**
  * Get Agora app data and token
- * Supports both encrypted demo server and direct app certificate usage
+ * Only supports the encrypted demo server; App Certificates never leave our own server
  */
 export async function agoraGetAppData(config: TokenConfig): Promise<string | null> {
-  const { uid, channel } = config;
-  const { appid, certificate } = getOptionsFromLocal();
+  const { channel } = config;
   const res = getEncryptFromUrl();
   const encryptedId = res.encryptedId;
   const encryptedSecret = res.encryptedSecret;
-  let data: Record<string, unknown> = {};
-  let url = "";
-
-  // Use encrypted demo server if credentials are in URL
-  if (encryptedId && encryptedSecret) {
-    url = `${BASE_URL}/v1/webdemo/encrypted/token`;
-    data = {
-      channelName: channel,
-      encryptedId,
-      encryptedSecret,
-      traceId: generateUUID(),
-      src: "webdemo",
-    };
-  } else {
-    // Use direct app certificate
-    if (!certificate) {
-      console.warn('No app certificate available for token generation');
-      return null;
-    }
 
-    url = `${BASE_URL}/v2/token/generate`;
-    data = {
-      appId: appid,
-      appCertificate: certificate,
-      channelName: channel,
-      expire: 7200,
-      src: "web",
-      types: [1, 2], // RTC and RTM
-      uid: uid,
-    };
+  // The demo server is only usable with encrypted credentials from the URL
+  if (!encryptedId || !encryptedSecret) {
+    defaultLogger.warn('token', 'No encrypted demo credentials available for token generation');
+    return null;
   }
 
+  const url = `${BASE_URL}/v1/webdemo/encrypted/token`;
+  const data: Record<string, unknown> = {
+    channelName: channel,
+    encryptedId,
+    encryptedSecret,
+    traceId: generateUUID(),
+    src: "webdemo",
+  };
+
   try {
     const response = await fetch(url, {
       method: "POST",
@@ -111,7 +93,7 @@ export async function agoraGetAppData(config: TokenConfig): Promise<string | nul
 
     if (resp.code !== 0) {
       const msg = resp.message || "Generate token error, please check your appid and appcertificate parameters";
-      console.error(msg);
+      defaultLogger.error('token', msg);
       throw new Error(msg);
     }
 
@@ -124,7 +106,7 @@ export async function agoraGetAppData(config: TokenConfig): Promise<string | nul
 
     return respData.token || null;
   } catch (error) {
-    console.error('Failed to generate token:', error);
+    defaultLogger.error('token', 'Failed to generate token', error);
     throw error;
   }
 }
@@ -134,7 +116,6 @@ export async function agoraGetAppData(config: TokenConfig): Promise<string | nul
  */
 export async function generateTokenFromBackend(
   appId: string,
-  appCertificate: string,
   channelName: string,
   uid: string | number = 0,
   role: 'publisher' | 'audience' = 'audience',
@@ -148,7 +129,6 @@ export async function generateTokenFromBackend(
       },
       body: JSON.stringify({
         appId,
-        appCertificate,
         channelName,
         uid,
         role,
@@ -164,86 +144,157 @@ export async function generateTokenFromBackend(
     const data = await response.json();
     return data.token;
   } catch (error) {
-    console.error('Backend token generation failed:', error);
+    defaultLogger.error('token', 'Backend token generation failed', error);
     throw error;
   }
 }
 
-/**
- * Generate token using server with frontend-provided credentials
- */
-export async function generateTokenFromServer(
-  appId: string,
-  appCertificate: string,
-  channelName: string,
-  uid: string | number = 0,
-  role: 'publisher' | 'audience' = 'audience'
-): Promise<string> {
-  try {
-    const params = new URLSearchParams({
-      appId,
-      appCertificate,
-      channel: channelName,
-      uid: uid.toString(),
-      role
-    });
+export interface InviteRedemption {
+  token: string;
+  appId: string;
+  channel: string;
+  uid: string | number;
+  uidType: 'uid' | 'account';
+  role: 'publisher' | 'audience';
+  mode: 'rtc' | 'live';
+  codec: 'vp8' | 'vp9' | 'h264';
+  latency: 'low' | 'ultra-low';
+  expireTime: number;
+  inviteExpireTime: number;
+  // For renewing the token and rejoining; see createInviteTokenProvider
+  session: string;
+}
 
-    const response = await fetch(`/api/agora/token?${params}`);
+// Why an invite was refused: 'invalid', 'expired', 'exhausted' or 'not-configured'
+export class InviteRedemptionError extends Error {
+  constructor(public code: string, message: string) {
+    super(message);
+    this.name = 'InviteRedemptionError';
+  }
+}
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `HTTP ${response.status}`);
-    }
+/**
+ * Exchange a /video invite for channel settings and a token
+ */
+export async function redeemVideoInvite(invite: string): Promise<InviteRedemption> {
+  const response = await fetch('/api/agora/invite/redeem', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ invite })
+  });
 
-    const data = await response.json();
-    if (data.code !== 0) {
-      throw new Error(data.message || 'Token generation failed');
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    // Server errors and outages carry no code and are worth retrying
+    if (typeof data.code === 'string') {
+      throw new InviteRedemptionError(data.code, data.error || `HTTP ${response.status}`);
     }
-
-    return data.data.token;
-  } catch (error) {
-    console.error('Server token generation failed:', error);
-    throw error;
+    throw new Error(data.error || `Failed to redeem invite (HTTP ${response.status})`);
   }
+  return data;
 }
 
+// Numeric uids are unsigned 32-bit integers
+const MAX_NUMERIC_UID = 2 ** 32 - 1;
+// Characters Agora allows in string user accounts, up to 255 of them
+const USER_ACCOUNT_PATTERN = /^[a-zA-Z0-9 !#$%&()+\-:;<=.>?@[\]^_{|}~,]{1,255}$/;
+
 /**
- * Validate token format
+ * Normalize a uid from a form field, query string or request body. Digit-only values are
+ * numeric uids and anything else is a string user account; 0 or empty means "let Agora assign".
+ * The SDK treats every string as an account, so "42" must become 42 to match a uid token.
  */
-export function validateAgoraToken(token: string): boolean {
-  if (!token || typeof token !== 'string') {
-    return false;
+export function normalizeAgoraUid(uid: string | number | null | undefined): string | number | null {
+  if (uid === null || uid === undefined) {
+    return null;
   }
 
-  // Agora tokens start with version identifier (006 or 007)
-  const versionPattern = /^00[67]/;
-  if (!versionPattern.test(token)) {
-    return false;
+  const value = String(uid).trim();
+  if (value === '' || value === '0') {
+    return null;
   }
 
-  // Basic length check (tokens are typically much longer)
-  return token.length > 50;
+  if (/^\d+$/.test(value)) {
+    const numericUid = Number(value);
+    if (numericUid > MAX_NUMERIC_UID) {
+      throw new Error(`Numeric uid ${value} is out of range (maximum ${MAX_NUMERIC_UID})`);
+    }
+    return numericUid;
+  }
+
+  if (!USER_ACCOUNT_PATTERN.test(value)) {
+    throw new Error('Invalid user account. Use up to 255 letters, digits, spaces or common punctuation.');
+  }
+  return value;
 }
 
 /**
  * Save Agora credentials to localStorage
  */
-export function saveAgoraCredentials(appId: string, appCertificate?: string): void {
+export function saveAgoraCredentials(appId: string): void {
   if (typeof window === 'undefined') return;
 
   localStorage.setItem('agora_app_id', appId);
-  if (appCertificate) {
-    localStorage.setItem('agora_app_certificate', appCertificate);
-  }
+  // Purge certificates persisted by older builds
+  localStorage.removeItem('agora_app_certificate');
 }
 
 /**
  * Load Agora credentials from localStorage
  */
-export function loadAgoraCredentials(): { appId: string; appCertificate: string } {
-  const { appid, certificate } = getOptionsFromLocal();
+export function loadAgoraCredentials(): { appId: string } {
+  const { appid } = getOptionsFromLocal();
   return {
-    appId: appid,
-    appCertificate: certificate
+    appId: appid
   };
-}
\ No newline at end of file
+}
+
+export interface MonitorPreset {
+  name: string;
+  appId: string;
+  channels: string[];
+}
+
+const MONITOR_PRESETS_KEY = 'agora_monitor_presets';
+
+// localStorage can hold anything, e.g. entries written by hand or by older builds
+function isMonitorPreset(value: unknown): value is MonitorPreset {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const { name, appId, channels } = value as Record<string, unknown>;
+  return typeof name === 'string'
+    && typeof appId === 'string'
+    && Array.isArray(channels)
+    && channels.every(channel => typeof channel === 'string');
+}
+
+/**
+ * Saved /monitor channel lists, in the order they were saved
+ */
+export function loadMonitorPresets(): MonitorPreset[] {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const presets = JSON.parse(localStorage.getItem(MONITOR_PRESETS_KEY) || '[]');
+    return Array.isArray(presets) ? presets.filter(isMonitorPreset) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Save a preset, replacing any preset with the same name. Returns the updated list.
+ */
+export function saveMonitorPreset(preset: MonitorPreset): MonitorPreset[] {
+  const presets = [...loadMonitorPresets().filter(existing => existing.name !== preset.name), preset];
+  localStorage.setItem(MONITOR_PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
+
+export function deleteMonitorPreset(name: string): MonitorPreset[] {
+  const presets = loadMonitorPresets().filter(preset => preset.name !== name);
+  localStorage.setItem(MONITOR_PRESETS_KEY, JSON.stringify(presets));
+  return presets;
+}
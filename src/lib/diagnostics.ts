@@ -0,0 +1,103 @@
+import type { ConnectionDisconnectedReason, ConnectionState } from 'agora-rtc-sdk-ng';
+import { LogEntry, Logger, redact } from './logger';
+import { downloadBlob } from './download';
+
+export interface ConnectionHistoryEntry {
+  // ISO 8601
+  timestamp: string;
+  state: ConnectionState;
+  previousState: ConnectionState;
+  reason?: ConnectionDisconnectedReason;
+}
+
+export interface DiagnosticsSession {
+  appId: string;
+  channel: string;
+  uid: string | number | null;
+  role: 'publisher' | 'audience';
+  mode?: string;
+  codec?: string;
+  connectionState: ConnectionState | null;
+}
+
+export interface BrowserCapabilities {
+  userAgent: string;
+  language: string;
+  online: boolean;
+  secureContext: boolean;
+  // From the SDK; false means the browser can't join at all
+  systemRequirements: boolean | null;
+  supportedCodecs: { video: string[]; audio: string[] } | null;
+  screenShare: boolean;
+  mediaRecorder: boolean;
+  decompressionStream: boolean;
+}
+
+export interface DiagnosticsBundle {
+  generatedAt: string;
+  // Page URL with invite and token parameters redacted
+  page: string;
+  sdkVersion: string | null;
+  capabilities: BrowserCapabilities;
+  session: DiagnosticsSession | null;
+  connectionHistory: ConnectionHistoryEntry[];
+  logs: LogEntry[];
+}
+
+export interface DiagnosticsSource {
+  logger: Logger;
+  session?: DiagnosticsSession | null;
+  connectionHistory?: ConnectionHistoryEntry[];
+}
+
+async function getCapabilities(): Promise<{ sdkVersion: string | null; capabilities: BrowserCapabilities }> {
+  const capabilities: BrowserCapabilities = {
+    userAgent: navigator.userAgent,
+    language: navigator.language,
+    online: navigator.onLine,
+    secureContext: window.isSecureContext,
+    systemRequirements: null,
+    supportedCodecs: null,
+    screenShare: typeof navigator.mediaDevices?.getDisplayMedia === 'function',
+    mediaRecorder: typeof MediaRecorder !== 'undefined',
+    decompressionStream: typeof DecompressionStream !== 'undefined'
+  };
+
+  try {
+    const AgoraRTC = (await import('agora-rtc-sdk-ng')).default;
+    capabilities.systemRequirements = AgoraRTC.checkSystemRequirements();
+    capabilities.supportedCodecs = await AgoraRTC.getSupportedCodec();
+    return { sdkVersion: AgoraRTC.VERSION, capabilities };
+  } catch {
+    // The bundle is most useful exactly when something is broken, so report what we have
+    return { sdkVersion: null, capabilities };
+  }
+}
+
+/**
+ * Gather recent logs, connection history and browser capabilities for a bug report.
+ * Tokens, certificates and invite links are redacted.
+ */
+export async function collectDiagnostics({
+  logger,
+  session = null,
+  connectionHistory = []
+}: DiagnosticsSource): Promise<DiagnosticsBundle> {
+  const { sdkVersion, capabilities } = await getCapabilities();
+
+  return {
+    generatedAt: new Date().toISOString(),
+    page: redact(window.location.href) as string,
+    sdkVersion,
+    capabilities,
+    session: redact(session) as DiagnosticsSession | null,
+    connectionHistory: [...connectionHistory],
+    logs: logger.getEntries()
+  };
+}
+
+export function downloadDiagnosticsBundle(bundle: DiagnosticsBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+  const timestamp = bundle.generatedAt.replace(/[:.]/g, '-');
+  downloadBlob(blob, `agora-diagnostics-${timestamp}.json`);
+}
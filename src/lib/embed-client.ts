@@ -0,0 +1,79 @@
+import {
+  EmbedCommand,
+  EmbedEvent,
+  EmbedEventName,
+  createEmbedCommandMessage,
+  parseEmbedEvent
+} from './embed-protocol';
+
+export type VideoEmbedListener<E extends EmbedEventName> = (event: Extract<EmbedEvent, { event: E }>) => void;
+
+export interface VideoEmbedClient {
+  mute(): void;
+  unmute(): void;
+  // 0-100
+  setVolume(volume: number): void;
+  // null goes back to the invite link's target
+  selectUid(uid: string | number | null): void;
+  // The iframe needs allow="fullscreen", and browsers may still refuse until the viewer
+  // has interacted with the player; a refusal comes back as an error event
+  toggleFullscreen(): void;
+  leave(): void;
+  rejoin(): void;
+  on<E extends EmbedEventName>(event: E, listener: VideoEmbedListener<E>): () => void;
+  // Stop listening for the player's events
+  destroy(): void;
+}
+
+/**
+ * Control a /video player embedded in `iframe` from the host page. `playerOrigin` is the
+ * origin serving the player; the host page's origin must be in the player's
+ * NEXT_PUBLIC_EMBED_ALLOWED_ORIGINS. Commands sent before the `ready` event are lost.
+ */
+export function createVideoEmbedClient(iframe: HTMLIFrameElement, playerOrigin: string): VideoEmbedClient {
+  const origin = new URL(playerOrigin).origin;
+  const listeners = new Map<EmbedEventName, Set<(event: EmbedEvent) => void>>();
+
+  const handleMessage = (message: MessageEvent) => {
+    if (message.source !== iframe.contentWindow || message.origin !== origin) return;
+
+    const event = parseEmbedEvent(message.data);
+    if (!event) return;
+
+    listeners.get(event.event)?.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in embed "${event.event}" listener:`, error);
+      }
+    });
+  };
+  window.addEventListener('message', handleMessage);
+
+  const send = (command: EmbedCommand) => {
+    iframe.contentWindow?.postMessage(createEmbedCommandMessage(command), origin);
+  };
+
+  return {
+    mute: () => send({ command: 'mute' }),
+    unmute: () => send({ command: 'unmute' }),
+    setVolume: (volume) => send({ command: 'set-volume', volume }),
+    selectUid: (uid) => send({ command: 'select-uid', uid }),
+    toggleFullscreen: () => send({ command: 'toggle-fullscreen' }),
+    leave: () => send({ command: 'leave' }),
+    rejoin: () => send({ command: 'rejoin' }),
+    on(event, listener) {
+      const eventListeners = listeners.get(event) ?? new Set();
+      const entry = listener as (event: EmbedEvent) => void;
+      eventListeners.add(entry);
+      listeners.set(event, eventListeners);
+      return () => {
+        eventListeners.delete(entry);
+      };
+    },
+    destroy() {
+      window.removeEventListener('message', handleMessage);
+      listeners.clear();
+    }
+  };
+}
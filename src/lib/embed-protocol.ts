@@ -0,0 +1,162 @@
+/**
+ * postMessage protocol between the /video player and the page embedding it in an iframe.
+ * Every message carries the source and protocol version, so other scripts' messages are ignored
+ * and hosts built against another version get an error rather than silent misbehaviour.
+ */
+
+import { normalizeAgoraUid } from './agora-utils';
+
+export const EMBED_MESSAGE_SOURCE = 'agora-video-embed';
+export const EMBED_PROTOCOL_VERSION = 1;
+
+export type EmbedConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// Host page -> player
+export type EmbedCommand =
+  | { command: 'mute' }
+  | { command: 'unmute' }
+  // 0-100
+  | { command: 'set-volume'; volume: number }
+  // Feature this user in the main view; null goes back to the link's target
+  | { command: 'select-uid'; uid: string | number | null }
+  | { command: 'toggle-fullscreen' }
+  | { command: 'leave' }
+  | { command: 'rejoin' };
+
+// Player -> host page
+export type EmbedEvent =
+  // Sent once the player listens for commands
+  | { event: 'ready' }
+  | { event: 'joined'; channel: string; uid: string | number | null }
+  | { event: 'user-joined'; uid: string | number }
+  | { event: 'user-left'; uid: string | number }
+  | { event: 'connection-state'; state: EmbedConnectionState }
+  // code is an AgoraClientErrorCode, an invite error code, 'invalid-command' or 'fullscreen'
+  | { event: 'error'; code: string; message: string };
+
+export type EmbedCommandName = EmbedCommand['command'];
+export type EmbedEventName = EmbedEvent['event'];
+
+interface EmbedEnvelope {
+  source: typeof EMBED_MESSAGE_SOURCE;
+  version: number;
+}
+
+export type EmbedCommandMessage = EmbedEnvelope & EmbedCommand;
+export type EmbedEventMessage = EmbedEnvelope & EmbedEvent;
+
+const COMMAND_NAMES: EmbedCommandName[] = ['mute', 'unmute', 'set-volume', 'select-uid', 'toggle-fullscreen', 'leave', 'rejoin'];
+const CONNECTION_STATES: EmbedConnectionState[] = ['connecting', 'connected', 'reconnecting', 'disconnected'];
+
+export function createEmbedCommandMessage(command: EmbedCommand): EmbedCommandMessage {
+  return { source: EMBED_MESSAGE_SOURCE, version: EMBED_PROTOCOL_VERSION, ...command };
+}
+
+export function createEmbedEventMessage(event: EmbedEvent): EmbedEventMessage {
+  return { source: EMBED_MESSAGE_SOURCE, version: EMBED_PROTOCOL_VERSION, ...event };
+}
+
+function isEmbedEnvelope(data: unknown): data is EmbedEnvelope & Record<string, unknown> {
+  return typeof data === 'object' && data !== null && (data as { source?: unknown }).source === EMBED_MESSAGE_SOURCE;
+}
+
+/**
+ * Read a command sent by the host page. Returns null for messages that aren't part of this
+ * protocol, and a problem for ones that are but can't be carried out.
+ */
+export function parseEmbedCommand(data: unknown): { command: EmbedCommand } | { problem: string } | null {
+  if (!isEmbedEnvelope(data)) return null;
+
+  if (data.version !== EMBED_PROTOCOL_VERSION) {
+    return { problem: `Unsupported protocol version ${String(data.version)}. This player speaks version ${EMBED_PROTOCOL_VERSION}` };
+  }
+
+  const name = data.command as EmbedCommandName;
+  if (!COMMAND_NAMES.includes(name)) {
+    return { problem: `Unknown command "${String(data.command)}"` };
+  }
+
+  if (name === 'set-volume') {
+    const { volume } = data;
+    if (typeof volume !== 'number' || !Number.isFinite(volume) || volume < 0 || volume > 100) {
+      return { problem: 'set-volume needs a volume from 0 to 100' };
+    }
+    return { command: { command: name, volume } };
+  }
+
+  if (name === 'select-uid') {
+    const { uid } = data;
+    if (uid !== null && typeof uid !== 'string' && typeof uid !== 'number') {
+      return { problem: 'select-uid needs a uid, or null to clear the selection' };
+    }
+    // Hosts may send "42" for numeric uid 42, which would never match a remote user as is
+    try {
+      return { command: { command: name, uid: normalizeAgoraUid(uid) } };
+    } catch (uidError) {
+      return { problem: `Invalid uid for select-uid: ${uidError instanceof Error ? uidError.message : String(uid)}` };
+    }
+  }
+
+  return { command: { command: name } as EmbedCommand };
+}
+
+function isUid(value: unknown): value is string | number {
+  return typeof value === 'string' || typeof value === 'number';
+}
+
+/**
+ * Read an event sent by the player; null for anything else, including other protocol
+ * versions and events whose fields don't have the expected types
+ */
+export function parseEmbedEvent(data: unknown): EmbedEvent | null {
+  if (!isEmbedEnvelope(data) || data.version !== EMBED_PROTOCOL_VERSION) return null;
+
+  switch (data.event) {
+    case 'ready':
+      return { event: 'ready' };
+    case 'joined': {
+      const { channel, uid } = data;
+      if (typeof channel !== 'string' || (uid !== null && !isUid(uid))) return null;
+      return { event: 'joined', channel, uid };
+    }
+    case 'user-joined':
+    case 'user-left': {
+      const { uid } = data;
+      if (!isUid(uid)) return null;
+      return { event: data.event, uid };
+    }
+    case 'connection-state': {
+      const state = data.state as EmbedConnectionState;
+      if (!CONNECTION_STATES.includes(state)) return null;
+      return { event: 'connection-state', state };
+    }
+    case 'error': {
+      const { code, message } = data;
+      if (typeof code !== 'string' || typeof message !== 'string') return null;
+      return { event: 'error', code, message };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Origins allowed to control the player, from the comma-separated NEXT_PUBLIC_EMBED_ALLOWED_ORIGINS.
+ * Entries that aren't valid origins are dropped; an empty list turns the protocol off.
+ */
+export function getEmbedAllowedOrigins(value: string | undefined = process.env.NEXT_PUBLIC_EMBED_ALLOWED_ORIGINS): string[] {
+  if (!value) return [];
+
+  return value
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      try {
+        const { origin } = new URL(entry);
+        return origin === 'null' ? [] : [origin];
+      } catch {
+        return [];
+      }
+    });
+}
@@ -0,0 +1,10 @@
+/**
+ * Columns and rows for an evenly filled grid of `count` tiles
+ */
+export function getGridDimensions(count: number): { columns: number; rows: number } {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(count)));
+  return {
+    columns,
+    rows: Math.max(1, Math.ceil(count / columns))
+  };
+}
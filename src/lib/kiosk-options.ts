@@ -0,0 +1,153 @@
+import { normalizeAgoraUid } from './agora-utils';
+
+export type KioskFit = 'cover' | 'contain';
+export type KioskLayout = 'single' | 'grid' | 'pip';
+export type KioskOverlay = 'none' | 'uid' | 'name';
+// What the main view shows while the user it features is gone
+export type KioskLeaveBehavior = 'black' | 'next' | 'slate';
+
+export interface KioskOptions {
+  // Preferred user for the main view; the first user with video when null
+  target: string | number | null;
+  fit: KioskFit;
+  mirror: boolean;
+  muted: boolean;
+  // CSS colour
+  background: string;
+  overlay: KioskOverlay;
+  // Shown instead of the uid by the name overlay
+  name: string | null;
+  layout: KioskLayout;
+  onLeave: KioskLeaveBehavior;
+  slate: string | null;
+}
+
+export const DEFAULT_KIOSK_OPTIONS: KioskOptions = {
+  target: null,
+  fit: 'cover',
+  mirror: false,
+  muted: false,
+  background: '#000000',
+  overlay: 'none',
+  name: null,
+  layout: 'single',
+  onLeave: 'black',
+  slate: null
+};
+
+const FITS: KioskFit[] = ['cover', 'contain'];
+const LAYOUTS: KioskLayout[] = ['single', 'grid', 'pip'];
+const OVERLAYS: KioskOverlay[] = ['none', 'uid', 'name'];
+const LEAVE_BEHAVIORS: KioskLeaveBehavior[] = ['black', 'next', 'slate'];
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  '1': true,
+  'true': true,
+  'yes': true,
+  '0': false,
+  'false': false,
+  'no': false
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const MAX_NAME_LENGTH = 64;
+
+function parseColor(value: string): string | null {
+  if (HEX_COLOR_PATTERN.test(value)) {
+    return value.startsWith('#') ? value : `#${value}`;
+  }
+  // Named colours such as "black" or "transparent"
+  if (/^[a-z]+$/i.test(value) && typeof CSS !== 'undefined' && CSS.supports('color', value)) {
+    return value;
+  }
+  return null;
+}
+
+function parseSlateUrl(value: string): string | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the /video display options from the query string. Unknown parameters are ignored;
+ * bad values are reported as problems rather than silently replaced by defaults.
+ */
+export function parseKioskOptions(params: URLSearchParams): { options: KioskOptions; problems: string[] } {
+  const options: KioskOptions = { ...DEFAULT_KIOSK_OPTIONS };
+  const problems: string[] = [];
+
+  const readEnum = <T extends string>(key: string, allowed: T[]): T | undefined => {
+    const value = params.get(key);
+    if (value === null) return undefined;
+    if ((allowed as string[]).includes(value)) return value as T;
+    problems.push(`Invalid ${key} "${value}". Expected one of: ${allowed.join(', ')}`);
+    return undefined;
+  };
+
+  const readBoolean = (key: string): boolean | undefined => {
+    const value = params.get(key);
+    if (value === null) return undefined;
+    // A bare flag such as ?mirror counts as true
+    const parsed = value === '' ? true : BOOLEAN_VALUES[value.toLowerCase()];
+    if (parsed === undefined) {
+      problems.push(`Invalid ${key} "${value}". Expected true or false`);
+    }
+    return parsed;
+  };
+
+  const target = params.get('target');
+  if (target !== null) {
+    try {
+      options.target = normalizeAgoraUid(target);
+    } catch (uidError) {
+      problems.push(`Invalid target: ${uidError instanceof Error ? uidError.message : target}`);
+    }
+  }
+
+  options.fit = readEnum('fit', FITS) ?? options.fit;
+  options.mirror = readBoolean('mirror') ?? options.mirror;
+  options.muted = readBoolean('muted') ?? options.muted;
+  options.layout = readEnum('layout', LAYOUTS) ?? options.layout;
+  options.onLeave = readEnum('onleave', LEAVE_BEHAVIORS) ?? options.onLeave;
+
+  const background = params.get('bg');
+  if (background !== null) {
+    const color = parseColor(background);
+    if (color) {
+      options.background = color;
+    } else {
+      problems.push(`Invalid bg "${background}". Use a hex colour such as 000000 or a colour name`);
+    }
+  }
+
+  const name = params.get('name');
+  if (name !== null) {
+    if (!name.trim() || name.length > MAX_NAME_LENGTH) {
+      problems.push(`Invalid name. It must be 1 to ${MAX_NAME_LENGTH} characters`);
+    } else {
+      options.name = name.trim();
+    }
+  }
+  // A name on its own is enough to turn the name overlay on
+  options.overlay = readEnum('overlay', OVERLAYS) ?? (options.name ? 'name' : options.overlay);
+  if (options.overlay === 'name' && !options.name && name === null) {
+    problems.push('overlay=name needs a name parameter');
+  }
+
+  const slate = params.get('slate');
+  if (slate !== null) {
+    options.slate = parseSlateUrl(slate);
+    if (!options.slate) {
+      problems.push('Invalid slate. It must be an http or https image URL');
+    }
+  }
+  if (options.onLeave === 'slate' && slate === null) {
+    problems.push('onleave=slate needs a slate parameter');
+  }
+
+  return { options, problems };
+}
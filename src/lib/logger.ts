@@ -0,0 +1,184 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogNamespace = 'token' | 'connection' | 'media' | 'ui';
+
+export interface LogEntry {
+  // ISO 8601
+  timestamp: string;
+  level: LogLevel;
+  namespace: LogNamespace;
+  message: string;
+  // Already redacted and made JSON-safe
+  data?: unknown;
+}
+
+// Receives every entry at or above the logger's level, e.g. to forward it to a collector
+export type LogSink = (entry: LogEntry) => void;
+
+export interface LoggerOptions {
+  // Entries below this level are buffered but not passed to sinks
+  level?: LogLevel;
+  // Number of recent entries kept for diagnostics, at every level
+  bufferSize?: number;
+  // Defaults to the browser console
+  sinks?: LogSink[];
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+const DEFAULT_BUFFER_SIZE = 500;
+const MAX_DATA_DEPTH = 4;
+
+const REDACTED = '[redacted]';
+const SENSITIVE_KEY_PATTERN = /token|certificate|secret|invite|password|authorization/i;
+// 006/007 tokens, and credentials carried in URLs
+const TOKEN_PATTERN = /\b00[67][A-Za-z0-9+/=_-]{16,}/g;
+const SENSITIVE_PARAM_PATTERN = /([?&](?:token|invite|encryptedId|encryptedSecret)=)[^&#\s]+/gi;
+
+function redactString(value: string): string {
+  return value.replace(TOKEN_PATTERN, REDACTED).replace(SENSITIVE_PARAM_PATTERN, `$1${REDACTED}`);
+}
+
+/**
+ * Copy a value into plain JSON data with tokens, certificates and secrets removed.
+ * Class instances such as SDK tracks are reduced to their class name.
+ */
+export function redact(value: unknown, depth: number = 0, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (value === null || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (typeof value !== 'object') {
+    return undefined;
+  }
+
+  if (seen.has(value)) return '[circular]';
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const { code } = value as Error & { code?: unknown };
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      code: typeof code === 'string' || typeof code === 'number' ? code : undefined,
+      stack: value.stack ? redactString(value.stack) : undefined
+    };
+  }
+
+  if (depth >= MAX_DATA_DEPTH) {
+    return Array.isArray(value) ? '[array]' : '[object]';
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const prototype = Object.getPrototypeOf(value);
+  if (prototype !== Object.prototype && prototype !== null) {
+    return `[${value.constructor?.name || 'object'}]`;
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entryValue]) => {
+    result[key] = SENSITIVE_KEY_PATTERN.test(key) && entryValue ? REDACTED : redact(entryValue, depth + 1, seen);
+  });
+  return result;
+}
+
+export const consoleSink: LogSink = ({ level, namespace, message, data }) => {
+  const args: unknown[] = [`[${namespace}] ${message}`];
+  if (data !== undefined) {
+    args.push(data);
+  }
+  console[level](...args);
+};
+
+function getDefaultLevel(): LogLevel {
+  const configured = process.env.NEXT_PUBLIC_AGORA_LOG_LEVEL as LogLevel | undefined;
+  if (configured && configured in LEVEL_ORDER) {
+    return configured;
+  }
+  return process.env.NODE_ENV === 'production' ? 'warn' : 'debug';
+}
+
+/**
+ * Levelled logger that keeps a ring buffer of recent entries for the diagnostics bundle
+ */
+export class Logger {
+  readonly level: LogLevel;
+  private bufferSize: number;
+  private sinks: LogSink[];
+  private entries: LogEntry[] = [];
+
+  constructor(options: LoggerOptions = {}) {
+    this.level = options.level ?? getDefaultLevel();
+    this.bufferSize = options.bufferSize ?? DEFAULT_BUFFER_SIZE;
+    this.sinks = options.sinks ?? [consoleSink];
+  }
+
+  debug(namespace: LogNamespace, message: string, data?: unknown) {
+    this.write('debug', namespace, message, data);
+  }
+
+  info(namespace: LogNamespace, message: string, data?: unknown) {
+    this.write('info', namespace, message, data);
+  }
+
+  warn(namespace: LogNamespace, message: string, data?: unknown) {
+    this.write('warn', namespace, message, data);
+  }
+
+  error(namespace: LogNamespace, message: string, data?: unknown) {
+    this.write('error', namespace, message, data);
+  }
+
+  /**
+   * Buffered entries, oldest first
+   */
+  getEntries(): LogEntry[] {
+    return [...this.entries];
+  }
+
+  clear() {
+    this.entries = [];
+  }
+
+  private write(level: LogLevel, namespace: LogNamespace, message: string, data?: unknown) {
+    const entry: LogEntry = {
+      timestamp: new Date().toISOString(),
+      level,
+      namespace,
+      message: redactString(message)
+    };
+    if (data !== undefined) {
+      entry.data = redact(data);
+    }
+
+    this.entries.push(entry);
+    if (this.entries.length > this.bufferSize) {
+      this.entries.splice(0, this.entries.length - this.bufferSize);
+    }
+
+    if (LEVEL_ORDER[level] < LEVEL_ORDER[this.level]) return;
+
+    this.sinks.forEach(sink => {
+      try {
+        sink(entry);
+      } catch {
+        // A broken sink must not break the caller
+      }
+    });
+  }
+}
+
+// Shared by code that has no AgoraConfig to take a logger from, and the default for AgoraClient
+export const defaultLogger = new Logger();
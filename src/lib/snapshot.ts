@@ -0,0 +1,50 @@
+export type SnapshotFormat = 'image/png' | 'image/jpeg';
+
+export interface SnapshotOptions {
+  format?: SnapshotFormat;
+  // JPEG quality, 0-1
+  quality?: number;
+  // Burn the capture time, channel and uid into the bottom-left corner
+  watermark?: boolean;
+}
+
+/**
+ * Encode a video frame as an image, with an optional line of text in the bottom-left corner
+ */
+export function renderSnapshot(
+  frame: ImageData,
+  watermark: string | null,
+  format: SnapshotFormat = 'image/png',
+  quality: number = 0.92
+): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    return Promise.reject(new Error('Canvas 2D is not available'));
+  }
+  context.putImageData(frame, 0, 0);
+
+  if (watermark) {
+    const fontSize = Math.max(12, Math.round(frame.height / 40));
+    const padding = Math.round(fontSize / 2);
+    context.font = `${fontSize}px monospace`;
+    context.textBaseline = 'bottom';
+
+    const textWidth = context.measureText(watermark).width;
+    context.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    context.fillRect(0, frame.height - fontSize - padding * 2, textWidth + padding * 2, fontSize + padding * 2);
+    context.fillStyle = '#fff';
+    context.fillText(watermark, padding, frame.height - padding);
+  }
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode snapshot'))),
+      format,
+      quality
+    );
+  });
+}
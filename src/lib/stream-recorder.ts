@@ -0,0 +1,282 @@
+import type { IAgoraRTCRemoteUser, UID } from 'agora-rtc-sdk-ng';
+import { getGridDimensions } from './grid-layout';
+import { defaultLogger } from './logger';
+
+// A single user's video, or every video user composited into a grid
+export type RecordingTarget = { kind: 'user'; uid: UID } | { kind: 'grid' };
+
+export type RecordingState = 'inactive' | 'recording' | 'paused';
+
+export interface RecordingStats {
+  state: RecordingState;
+  // Recorded time, excluding pauses
+  durationMs: number;
+  sizeBytes: number;
+}
+
+const CANVAS_WIDTH = 1280;
+const CANVAS_HEIGHT = 720;
+const FRAME_RATE = 30;
+// Emit data every second so the size can be shown while recording
+const TIMESLICE_MS = 1000;
+
+const MIME_TYPE_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm'
+];
+
+interface VideoSource {
+  track: MediaStreamTrack;
+  element: HTMLVideoElement;
+}
+
+interface AudioSource {
+  track: MediaStreamTrack;
+  node: MediaStreamAudioSourceNode;
+}
+
+function getSupportedMimeType(): string {
+  const mimeType = MIME_TYPE_CANDIDATES.find(candidate => MediaRecorder.isTypeSupported(candidate));
+  if (!mimeType) {
+    throw new Error('This browser cannot record WebM video');
+  }
+  return mimeType;
+}
+
+/**
+ * Records remote users into a WebM file. Video is drawn onto a canvas and audio from
+ * every user is mixed through Web Audio, so the recorder's own output tracks never change.
+ * Call setSources() whenever users publish or unpublish; recording carries on throughout.
+ */
+export class StreamRecorder {
+  private target: RecordingTarget;
+  private users: IAgoraRTCRemoteUser[] = [];
+  private canvas: HTMLCanvasElement;
+  private context: CanvasRenderingContext2D;
+  private audioContext: AudioContext;
+  private audioDestination: MediaStreamAudioDestinationNode;
+  private videoSources = new Map<UID, VideoSource>();
+  private audioSources = new Map<UID, AudioSource>();
+  private mediaRecorder: MediaRecorder | null = null;
+  private drawTimer: ReturnType<typeof setInterval> | null = null;
+  private chunks: Blob[] = [];
+  private sizeBytes = 0;
+  private startedAt = 0;
+  private pausedAt = 0;
+  private pausedDurationMs = 0;
+
+  constructor(target: RecordingTarget) {
+    this.target = target;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = CANVAS_WIDTH;
+    this.canvas.height = CANVAS_HEIGHT;
+
+    const context = this.canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas 2D is not available');
+    }
+    this.context = context;
+
+    this.audioContext = new AudioContext();
+    this.audioDestination = this.audioContext.createMediaStreamDestination();
+  }
+
+  start(users: IAgoraRTCRemoteUser[]): void {
+    if (this.mediaRecorder) return;
+
+    this.setSources(users);
+    this.drawFrame();
+    this.drawTimer = setInterval(() => this.drawFrame(), 1000 / FRAME_RATE);
+
+    const stream = new MediaStream([
+      ...this.canvas.captureStream(FRAME_RATE).getVideoTracks(),
+      ...this.audioDestination.stream.getAudioTracks()
+    ]);
+
+    try {
+      this.mediaRecorder = new MediaRecorder(stream, { mimeType: getSupportedMimeType() });
+    } catch (error) {
+      // Release the draw timer, audio graph and video elements set up above
+      stream.getTracks().forEach(track => track.stop());
+      this.dispose();
+      throw error;
+    }
+    this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        this.chunks.push(event.data);
+        this.sizeBytes += event.data.size;
+      }
+    };
+    this.mediaRecorder.start(TIMESLICE_MS);
+    this.startedAt = Date.now();
+    void this.audioContext.resume();
+
+    defaultLogger.info('media', '⏺️ Recording started', { mimeType: this.mediaRecorder.mimeType });
+  }
+
+  pause(): void {
+    if (this.mediaRecorder?.state !== 'recording') return;
+
+    this.mediaRecorder.pause();
+    this.pausedAt = Date.now();
+  }
+
+  resume(): void {
+    if (this.mediaRecorder?.state !== 'paused') return;
+
+    this.mediaRecorder.resume();
+    this.pausedDurationMs += Date.now() - this.pausedAt;
+    this.pausedAt = 0;
+  }
+
+  /**
+   * Stop recording and release all resources. Resolves with the finished WebM file.
+   */
+  stop(): Promise<Blob> {
+    const mediaRecorder = this.mediaRecorder;
+    if (!mediaRecorder) {
+      return Promise.reject(new Error('Recording has not been started'));
+    }
+
+    return new Promise<Blob>((resolve) => {
+      mediaRecorder.onstop = () => {
+        const blob = new Blob(this.chunks, { type: mediaRecorder.mimeType });
+        this.dispose();
+        defaultLogger.info('media', '⏹️ Recording stopped', { sizeBytes: blob.size });
+        resolve(blob);
+      };
+      mediaRecorder.stop();
+    });
+  }
+
+  setTarget(target: RecordingTarget): void {
+    this.target = target;
+  }
+
+  /**
+   * Follow the current remote users. Tracks that were replaced after a republish are
+   * picked up, and users without a track are drawn as a placeholder.
+   */
+  setSources(users: IAgoraRTCRemoteUser[]): void {
+    this.users = users;
+
+    const videoTracks = new Map<UID, MediaStreamTrack>();
+    const audioTracks = new Map<UID, MediaStreamTrack>();
+    users.forEach(user => {
+      if (user.videoTrack) videoTracks.set(user.uid, user.videoTrack.getMediaStreamTrack());
+      if (user.audioTrack) audioTracks.set(user.uid, user.audioTrack.getMediaStreamTrack());
+    });
+
+    this.videoSources.forEach((source, uid) => {
+      if (videoTracks.get(uid) !== source.track) {
+        source.element.pause();
+        source.element.srcObject = null;
+        this.videoSources.delete(uid);
+      }
+    });
+    videoTracks.forEach((track, uid) => {
+      if (this.videoSources.has(uid)) return;
+
+      const element = document.createElement('video');
+      element.muted = true;
+      element.playsInline = true;
+      element.srcObject = new MediaStream([track]);
+      element.play().catch(error => defaultLogger.warn('media', '⚠️ Recorder could not play video for user', { uid, error }));
+      this.videoSources.set(uid, { track, element });
+    });
+
+    this.audioSources.forEach((source, uid) => {
+      if (audioTracks.get(uid) !== source.track) {
+        source.node.disconnect();
+        this.audioSources.delete(uid);
+      }
+    });
+    audioTracks.forEach((track, uid) => {
+      if (this.audioSources.has(uid)) return;
+
+      const node = this.audioContext.createMediaStreamSource(new MediaStream([track]));
+      node.connect(this.audioDestination);
+      this.audioSources.set(uid, { track, node });
+    });
+  }
+
+  getStats(): RecordingStats {
+    const state = this.mediaRecorder?.state ?? 'inactive';
+    const now = state === 'paused' ? this.pausedAt : Date.now();
+    return {
+      state,
+      durationMs: this.startedAt ? now - this.startedAt - this.pausedDurationMs : 0,
+      sizeBytes: this.sizeBytes
+    };
+  }
+
+  private getTargetUsers(): IAgoraRTCRemoteUser[] {
+    if (this.target.kind === 'grid') {
+      return this.users.filter(user => user.hasVideo);
+    }
+
+    const { uid } = this.target;
+    return this.users.filter(user => user.uid === uid);
+  }
+
+  private drawFrame() {
+    const { context } = this;
+    context.fillStyle = '#000';
+    context.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+    const users = this.getTargetUsers();
+    if (users.length === 0) {
+      this.drawLabel('Waiting for video', 0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      return;
+    }
+
+    const { columns, rows } = getGridDimensions(users.length);
+    const tileWidth = CANVAS_WIDTH / columns;
+    const tileHeight = CANVAS_HEIGHT / rows;
+
+    users.forEach((user, index) => {
+      const x = (index % columns) * tileWidth;
+      const y = Math.floor(index / columns) * tileHeight;
+      const element = this.videoSources.get(user.uid)?.element;
+
+      if (element && element.videoWidth > 0) {
+        // Letterbox to keep the aspect ratio
+        const scale = Math.min(tileWidth / element.videoWidth, tileHeight / element.videoHeight);
+        const width = element.videoWidth * scale;
+        const height = element.videoHeight * scale;
+        context.drawImage(element, x + (tileWidth - width) / 2, y + (tileHeight - height) / 2, width, height);
+      } else {
+        this.drawLabel(`User ${user.uid} (no video)`, x, y, tileWidth, tileHeight);
+      }
+    });
+  }
+
+  private drawLabel(text: string, x: number, y: number, width: number, height: number) {
+    const { context } = this;
+    context.fillStyle = '#9ca3af';
+    context.font = '24px sans-serif';
+    context.textAlign = 'center';
+    context.textBaseline = 'middle';
+    context.fillText(text, x + width / 2, y + height / 2);
+  }
+
+  private dispose() {
+    if (this.drawTimer) {
+      clearInterval(this.drawTimer);
+      this.drawTimer = null;
+    }
+
+    this.videoSources.forEach(source => {
+      source.element.pause();
+      source.element.srcObject = null;
+    });
+    this.videoSources.clear();
+    this.audioSources.forEach(source => source.node.disconnect());
+    this.audioSources.clear();
+
+    this.mediaRecorder?.stream.getTracks().forEach(track => track.stop());
+    this.mediaRecorder = null;
+    void this.audioContext.close();
+  }
+}
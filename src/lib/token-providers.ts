@@ -0,0 +1,131 @@
+import { agoraGetAppData, generateTokenFromBackend } from './agora-utils';
+import { parseAgoraToken } from './agora-token';
+
+export interface TokenRequest {
+  appId: string;
+  channel: string;
+  // Normalized uid (see normalizeAgoraUid); null means the uid will be assigned by Agora
+  uid: string | number | null;
+  role: 'publisher' | 'audience';
+}
+
+/**
+ * Where AgoraClient gets tokens from, both to join and to renew
+ */
+export interface TokenProvider {
+  // Shown in logs and error messages
+  readonly name: string;
+  getToken(request: TokenRequest): Promise<string>;
+}
+
+export interface UrlTokenProviderOptions {
+  // E.g. an Authorization header for the token service
+  headers?: Record<string, string>;
+}
+
+/**
+ * Signs tokens with this app's /api/agora/token route, which holds the App Certificates
+ */
+export function createLocalRouteTokenProvider(): TokenProvider {
+  return {
+    name: 'local route',
+    getToken: ({ appId, channel, uid, role }) => generateTokenFromBackend(appId, channel, uid ?? 0, role)
+  };
+}
+
+/**
+ * Fetches tokens from another service. It receives the same POST body as /api/agora/token
+ * and must answer with `{ "token": "..." }`.
+ */
+export function createUrlTokenProvider(url: string, options: UrlTokenProviderOptions = {}): TokenProvider {
+  return {
+    name: url,
+    getToken: async ({ appId, channel, uid, role }) => {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...options.headers
+        },
+        body: JSON.stringify({
+          appId,
+          channelName: channel,
+          uid: uid ?? 0,
+          role
+        })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      if (typeof data.token !== 'string' || !data.token) {
+        throw new Error('Token service response did not include a token');
+      }
+      return data.token;
+    }
+  };
+}
+
+/**
+ * Gets tokens for a redeemed /video invite from /api/agora/token. The server signs them for
+ * the invite's own channel, uid and role, whatever the request says.
+ */
+export function createInviteTokenProvider(session: string): TokenProvider {
+  return {
+    name: 'invite',
+    getToken: async () => {
+      const response = await fetch('/api/agora/token', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ session })
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP ${response.status}`);
+      }
+      if (typeof data.token !== 'string' || !data.token) {
+        throw new Error('Token route response did not include a token');
+      }
+      return data.token;
+    }
+  };
+}
+
+/**
+ * Always hands out the same token. Renewal can't get a fresh one, so the session ends
+ * when the token expires.
+ */
+export function createStaticTokenProvider(token: string): TokenProvider {
+  return {
+    name: 'static token',
+    getToken: async () => {
+      // Undecodable tokens are passed through and left for join() to report
+      const parsedToken = await parseAgoraToken(token).catch(() => null);
+      if (parsedToken?.expiresAt && parsedToken.expiresAt * 1000 <= Date.now()) {
+        throw new Error('The static token has expired');
+      }
+      return token;
+    }
+  };
+}
+
+/**
+ * Agora's public demo server. Only works with the encryptedId and encryptedSecret URL
+ * parameters of an Agora web demo link, and sends them to Agora's servers.
+ */
+export function createDemoServerTokenProvider(): TokenProvider {
+  return {
+    name: 'demo server',
+    getToken: async ({ appId, channel, uid }) => {
+      const token = await agoraGetAppData({ uid: uid ?? 0, channel, appid: appId });
+      if (!token) {
+        throw new Error('The demo server needs encryptedId and encryptedSecret URL parameters');
+      }
+      return token;
+    }
+  };
+}